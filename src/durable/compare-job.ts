@@ -0,0 +1,166 @@
+/**
+ * 异步对比任务 Durable Object
+ * 每个任务对应一个实例，通过 alarm 分批处理地址，避免单次请求超过 Worker 时间限制；
+ * 每批处理 concurrency 个地址，storage 中只保存每个地址的摘要，查询时可以拿到部分结果；
+ * 完整对比结果较大（大户钱包可能超过 storage 单个值的上限），保存为 KV 快照，摘要中记录快照 id
+ */
+import { DurableObject } from 'cloudflare:workers';
+import type {
+  Env,
+  BatchItemResult,
+  BatchCompareRequest,
+  CompareJobState,
+  CompareJobType,
+  CompareJobView,
+  DataSourceCompareResult
+} from '../types';
+import { compareBatchEntry, buildBatchResult } from '../services/batch';
+import { recordComparison, getSnapshot } from '../services/snapshots';
+import { mapWithConcurrency } from '../utils/concurrency';
+
+// 查询任务时并发读取快照的数量
+const SNAPSHOT_READ_CONCURRENCY = 6;
+
+// storage key
+const JOB_KEY = 'job';
+const RESULT_KEY_PREFIX = 'result:';
+
+/**
+ * 单个地址结果的 storage key（补零保证 list 时按序返回）
+ */
+function resultKey(index: number): string {
+  return `${RESULT_KEY_PREFIX}${String(index).padStart(5, '0')}`;
+}
+
+export class CompareJob extends DurableObject<Env> {
+  /**
+   * 创建任务并安排第一次 alarm
+   */
+  async start(id: string, type: CompareJobType, request: BatchCompareRequest): Promise<CompareJobState> {
+    const now = new Date().toISOString();
+    const job: CompareJobState = {
+      id,
+      type,
+      status: 'pending',
+      request,
+      progress: {
+        total: request.entries.length,
+        processed: 0,
+        succeeded: 0,
+        failed: 0,
+      },
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.ctx.storage.put(JOB_KEY, job);
+    await this.ctx.storage.setAlarm(Date.now());
+    return job;
+  }
+
+  /**
+   * 查询任务状态和已完成的结果
+   * @param includeComparisons 是否返回完整对比结果（从 KV 快照读取，已过期的快照不返回）
+   */
+  async getJob(includeComparisons = true): Promise<CompareJobView | null> {
+    const job = await this.ctx.storage.get<CompareJobState>(JOB_KEY);
+    if (!job) return null;
+
+    const results = Array.from((await this.ctx.storage.list<BatchItemResult>({ prefix: RESULT_KEY_PREFIX })).values());
+
+    let comparisons: DataSourceCompareResult[] | undefined;
+    if (includeComparisons) {
+      const snapshots = await mapWithConcurrency(
+        results.filter(item => item.snapshotId),
+        SNAPSHOT_READ_CONCURRENCY,
+        item => getSnapshot(this.env.COMPARE_KV, item.snapshotId!)
+      );
+      comparisons = snapshots
+        .filter((snapshot): snapshot is NonNullable<typeof snapshot> => Boolean(snapshot))
+        .map(snapshot => snapshot.result);
+    }
+
+    return { ...job, results, comparisons };
+  }
+
+  /**
+   * 处理下一批地址，未完成时继续安排 alarm
+   */
+  async alarm(): Promise<void> {
+    const job = await this.ctx.storage.get<CompareJobState>(JOB_KEY);
+    if (!job || job.status === 'completed' || job.status === 'failed') return;
+
+    if (job.status === 'pending') {
+      job.status = 'running';
+      job.startedAt = new Date().toISOString();
+    }
+
+    const { request, progress } = job;
+
+    try {
+      const start = progress.processed;
+      const chunk = request.entries.slice(start, start + request.concurrency);
+
+      const outcomes = await mapWithConcurrency(
+        chunk,
+        request.concurrency,
+        entry => compareBatchEntry(this.env, entry, request)
+      );
+
+      // 完整对比结果保存为快照（同时检查告警），保存失败时该地址记为失败
+      const items = await Promise.all(outcomes.map(async (outcome, offset): Promise<BatchItemResult> => {
+        if (!outcome.result) return outcome.item;
+
+        const meta = await recordComparison(this.env, outcome.result, {
+          a: request.a,
+          b: request.b,
+          label: chunk[offset].label,
+        });
+        return meta
+          ? { ...outcome.item, snapshotId: meta.id }
+          : { ...outcome.item, success: false, error: 'Failed to store comparison result' };
+      }));
+
+      const entries: Record<string, BatchItemResult> = {};
+      items.forEach((item, offset) => {
+        entries[resultKey(start + offset)] = item;
+        if (item.success) {
+          progress.succeeded++;
+        } else {
+          progress.failed++;
+        }
+      });
+      progress.processed += items.length;
+
+      await this.ctx.storage.put(entries);
+
+      if (progress.processed >= progress.total) {
+        await this.complete(job);
+      } else {
+        console.log(`[Jobs] ${job.id}: ${progress.processed}/${progress.total} processed`);
+        await this.ctx.storage.setAlarm(Date.now());
+      }
+    } catch (error: any) {
+      console.error(`[Jobs] ${job.id} failed:`, error);
+      job.status = 'failed';
+      job.error = error.message || 'Job failed';
+      job.completedAt = new Date().toISOString();
+    }
+
+    job.updatedAt = new Date().toISOString();
+    await this.ctx.storage.put(JOB_KEY, job);
+  }
+
+  /**
+   * 全部地址处理完后生成汇总报告
+   */
+  private async complete(job: CompareJobState): Promise<void> {
+    const items = Array.from((await this.ctx.storage.list<BatchItemResult>({ prefix: RESULT_KEY_PREFIX })).values());
+    const startedAt = job.startedAt ? Date.parse(job.startedAt) : Date.now();
+
+    job.report = buildBatchResult(job.request, items, Date.now() - startedAt).report;
+    job.status = 'completed';
+    job.completedAt = new Date().toISOString();
+    console.log(`[Jobs] ${job.id} completed: ${job.progress.succeeded} succeeded, ${job.progress.failed} failed`);
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * 监控列表定时对比 Durable Object
+ * 全局单个实例，cron 触发后通过 alarm 分批对比，每次 alarm 最多 MONITOR_WALLETS_PER_ALARM 个钱包，
+ * 每个 alarm 是独立的调用，子请求数不会随监控列表增长而超过上限；
+ * 每个钱包的结果写入 storage，全部完成后汇总为健康报告保存到 KV
+ */
+import { DurableObject } from 'cloudflare:workers';
+import type { Env, WatchlistEntry } from '../types';
+import { monitorEntry, buildHealthReport, type MonitorEntryOutcome } from '../services/monitor';
+import { saveHealthReport } from '../services/watchlist';
+import { mapWithConcurrency } from '../utils/concurrency';
+
+// storage key
+const RUN_KEY = 'run';
+const WALLET_KEY_PREFIX = 'wallet:';
+
+// 每次 alarm 对比的钱包数（每个钱包约 20 ~ 30 个子请求：上游分页 / OneKey 各网络 + 快照、告警、缓存的 KV 操作）
+const MONITOR_WALLETS_PER_ALARM = 3;
+
+// 超过该时间未推进的运行视为中断，允许重新开始
+const STALE_RUN_MS = 30 * 60 * 1000;
+
+/**
+ * 一轮监控的状态
+ */
+interface MonitorRun {
+  status: 'running' | 'completed' | 'failed';
+  entries: WatchlistEntry[];
+  processed: number;
+  startedAt: number;
+  updatedAt: number;
+  error?: string;
+}
+
+/**
+ * 单个钱包结果的 storage key（补零保证 list 时按序返回）
+ */
+function walletKey(index: number): string {
+  return `${WALLET_KEY_PREFIX}${String(index).padStart(5, '0')}`;
+}
+
+export class WatchlistMonitor extends DurableObject<Env> {
+  /**
+   * 开始一轮监控，上一轮仍在进行时不重复开始
+   */
+  async start(entries: WatchlistEntry[]): Promise<boolean> {
+    const previous = await this.ctx.storage.get<MonitorRun>(RUN_KEY);
+    if (previous?.status === 'running' && Date.now() - previous.updatedAt < STALE_RUN_MS) {
+      return false;
+    }
+
+    const now = Date.now();
+    await this.ctx.storage.deleteAll();
+    await this.ctx.storage.put<MonitorRun>(RUN_KEY, {
+      status: 'running',
+      entries,
+      processed: 0,
+      startedAt: now,
+      updatedAt: now,
+    });
+    await this.ctx.storage.setAlarm(now);
+    return true;
+  }
+
+  /**
+   * 对比下一批钱包，未完成时继续安排 alarm
+   */
+  async alarm(): Promise<void> {
+    const run = await this.ctx.storage.get<MonitorRun>(RUN_KEY);
+    if (!run || run.status !== 'running') return;
+
+    try {
+      const start = run.processed;
+      const chunk = run.entries.slice(start, start + MONITOR_WALLETS_PER_ALARM);
+      const outcomes = await mapWithConcurrency(chunk, MONITOR_WALLETS_PER_ALARM, entry => monitorEntry(this.env, entry));
+
+      const wallets: Record<string, MonitorEntryOutcome> = {};
+      outcomes.forEach((outcome, offset) => {
+        wallets[walletKey(start + offset)] = outcome;
+      });
+      await this.ctx.storage.put(wallets);
+      run.processed += outcomes.length;
+
+      if (run.processed >= run.entries.length) {
+        const stored = await this.ctx.storage.list<MonitorEntryOutcome>({ prefix: WALLET_KEY_PREFIX });
+        const report = buildHealthReport(run.startedAt, Array.from(stored.values()));
+        await saveHealthReport(this.env.COMPARE_KV, report);
+        run.status = 'completed';
+        console.log(`[Monitor] Finished in ${report.durationMs}ms, average score: ${report.averageScore ?? 'n/a'}`);
+      } else {
+        console.log(`[Monitor] ${run.processed}/${run.entries.length} wallets processed`);
+        await this.ctx.storage.setAlarm(Date.now());
+      }
+    } catch (error: any) {
+      console.error('[Monitor] Watchlist run failed:', error);
+      run.status = 'failed';
+      run.error = error.message || 'Monitor run failed';
+    }
+
+    run.updatedAt = Date.now();
+    await this.ctx.storage.put(RUN_KEY, run);
+  }
+}
@@ -7,6 +7,11 @@ import { cors } from 'hono/cors';
 import { logger } from 'hono/logger';
 import { prettyJSON } from 'hono/pretty-json';
 import { defiRoutes } from './routes/defi';
+import { registryRoutes } from './routes/registry';
+import { jobRoutes } from './routes/jobs';
+import { snapshotRoutes } from './routes/snapshots';
+import { watchlistRoutes } from './routes/watchlist';
+import { runWatchlistMonitor } from './services/monitor';
 import type { Env } from './types';
 
 const app = new Hono<{ Bindings: Env }>();
@@ -80,6 +85,18 @@ app.get('/api/health', (c) => {
 // DeFi 相关路由
 app.route('/api', defiRoutes);
 
+// 注册表相关路由
+app.route('/api', registryRoutes);
+
+// 异步对比任务路由
+app.route('/api', jobRoutes);
+
+// 对比快照路由
+app.route('/api', snapshotRoutes);
+
+// 监控列表路由
+app.route('/api', watchlistRoutes);
+
 // ============ 错误处理 ============
 
 // 404
@@ -99,5 +116,16 @@ app.onError((err, c) => {
   }, 500);
 });
 
-export default app;
+export default {
+  fetch: app.fetch,
+
+  // 定时任务：对比监控列表中的钱包（cron 见 wrangler.jsonc），由 WatchlistMonitor 分批执行
+  scheduled(_controller, env, ctx) {
+    ctx.waitUntil(runWatchlistMonitor(env));
+  },
+} satisfies ExportedHandler<Env>;
+
+// Durable Object 需要从入口导出
+export { CompareJob } from './durable/compare-job';
+export { WatchlistMonitor } from './durable/watchlist-monitor';
 
@@ -0,0 +1,25 @@
+/**
+ * DeBank 数据源
+ */
+import type { PortfolioProvider } from '../types';
+import * as debankService from '../services/debank';
+import { getChainsSupportedBy } from '../registry/chains';
+
+export const debankProvider: PortfolioProvider = {
+  id: 'debank',
+  name: 'DeBank',
+  requiredSecrets: ['DEBANK_ACCESS_KEY'],
+  supportedChains: getChainsSupportedBy('debank'),
+
+  getAddressDefiData(address, env, options = {}) {
+    return debankService.getAddressDefiData(address, env.DEBANK_ACCESS_KEY, options.chains, options.deadline);
+  },
+
+  getRaw(address, env) {
+    return debankService.getRawComplexProtocolList(address, env.DEBANK_ACCESS_KEY);
+  },
+
+  transformRaw(address, raw) {
+    return debankService.transformComplexProtocolList(address, raw as debankService.DebankProtocol[]);
+  },
+};
@@ -0,0 +1,59 @@
+/**
+ * 数据源注册表
+ * 路由和对比服务通过 id 获取数据源，新增数据源只需在此注册
+ */
+import type { Env, PortfolioProvider } from '../types';
+import { zerionProvider } from './zerion';
+import { onekeyProvider } from './onekey';
+import { debankProvider } from './debank';
+
+const PROVIDERS: PortfolioProvider[] = [
+  zerionProvider,
+  onekeyProvider,
+  debankProvider,
+];
+
+const PROVIDER_INDEX = new Map(PROVIDERS.map(p => [p.id, p]));
+
+/**
+ * 按 id 获取数据源
+ */
+export function getProvider(id: string): PortfolioProvider | undefined {
+  return PROVIDER_INDEX.get(id.toLowerCase());
+}
+
+/**
+ * 列出所有注册的数据源
+ */
+export function listProviders(): PortfolioProvider[] {
+  return PROVIDERS;
+}
+
+/**
+ * 获取数据源缺失的环境变量
+ */
+export function getMissingSecrets(provider: PortfolioProvider, env: Env): Array<keyof Env> {
+  return provider.requiredSecrets.filter(key => !env[key]);
+}
+
+/**
+ * 按 id 获取已配置的数据源
+ * 未注册返回 400，缺少环境变量返回 500
+ */
+export function resolveProvider(id: string, env: Env): {
+  provider?: PortfolioProvider;
+  error?: string;
+  status?: 400 | 500;
+} {
+  const provider = getProvider(id);
+  if (!provider) {
+    return { error: `Unknown provider: ${id}`, status: 400 };
+  }
+
+  const missing = getMissingSecrets(provider, env);
+  if (missing.length > 0) {
+    return { error: `${missing.join(', ')} not configured`, status: 500 };
+  }
+
+  return { provider };
+}
@@ -0,0 +1,24 @@
+/**
+ * OneKey Portfolio 数据源
+ */
+import type { PortfolioProvider } from '../types';
+import * as onekeyService from '../services/onekey';
+import { getChainsSupportedBy } from '../registry/chains';
+
+export const onekeyProvider: PortfolioProvider = {
+  id: 'onekey',
+  name: 'OneKey',
+  requiredSecrets: ['ONEKEY_AUTH_TOKEN'],
+  supportedChains: getChainsSupportedBy('onekey'),
+
+  getAddressDefiData(address, env, options = {}) {
+    return onekeyService.getAddressDefiData(address, env.ONEKEY_AUTH_TOKEN, options.chains, options.deadline);
+  },
+
+  /**
+   * 原始数据按网络查询，params.networkId 默认 evm--1
+   */
+  getRaw(address, env, params = {}) {
+    return onekeyService.getRawPositions(address, params.networkId || 'evm--1', env.ONEKEY_AUTH_TOKEN);
+  },
+};
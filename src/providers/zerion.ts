@@ -0,0 +1,26 @@
+/**
+ * Zerion 数据源
+ */
+import type { PortfolioProvider } from '../types';
+import * as zerionService from '../services/zerion';
+import { getChainsSupportedBy } from '../registry/chains';
+
+export const zerionProvider: PortfolioProvider = {
+  id: 'zerion',
+  name: 'Zerion',
+  requiredSecrets: ['ZERION_API_KEY'],
+  supportedChains: getChainsSupportedBy('zerion'),
+
+  getAddressDefiData(address, env, options = {}) {
+    return zerionService.getAddressDefiData(address, env.ZERION_API_KEY, {
+      onlyComplex: options.onlyComplex,
+      pageSize: options.pageSize,
+      maxPages: options.maxPages,
+      deadline: options.deadline,
+    });
+  },
+
+  getRaw(address, env) {
+    return zerionService.getRawPositions(address, env.ZERION_API_KEY);
+  },
+};
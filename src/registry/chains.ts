@@ -0,0 +1,175 @@
+/**
+ * 链注册表
+ * 统一维护 canonical chain id 与各数据源标识（EVM chainId、OneKey networkId、Zerion / DeBank chain id）的映射，
+ * 所有数据源适配器和对比服务都通过这里做链名归一化
+ */
+
+/**
+ * 链的虚拟机类型
+ */
+export type ChainVm = 'evm' | 'svm' | 'tvm' | 'move' | 'utxo';
+
+/**
+ * 链定义
+ */
+export interface ChainDefinition {
+  id: string;                 // canonical id（沿用 Zerion 命名）
+  name: string;               // 展示名称
+  vm: ChainVm;
+  evmChainId?: number;        // EVM chainId（非 EVM 链为空）
+  onekeyNetworkId?: string;   // OneKey networkId（不支持时为空）
+  zerionId?: string;          // Zerion chain id（不支持时为空）
+  debankId?: string;          // DeBank chain id（不支持时为空）
+  aliases: string[];          // 短名 / 别名
+  primary: boolean;           // 未指定链时 OneKey 是否默认查询
+  nativeToken: {
+    symbol: string;
+    decimals: number;
+  };
+}
+
+/**
+ * 链支持情况
+ */
+export interface ChainSupport {
+  both: string[];
+  zerionOnly: string[];
+  onekeyOnly: string[];
+}
+
+// 链注册表，新增链时在此维护
+const CHAINS: ChainDefinition[] = [
+  { id: 'ethereum', name: 'Ethereum', vm: 'evm', evmChainId: 1, onekeyNetworkId: 'evm--1', zerionId: 'ethereum', debankId: 'eth', aliases: ['eth', 'mainnet'], primary: true, nativeToken: { symbol: 'ETH', decimals: 18 } },
+  { id: 'arbitrum', name: 'Arbitrum One', vm: 'evm', evmChainId: 42161, onekeyNetworkId: 'evm--42161', zerionId: 'arbitrum', debankId: 'arb', aliases: ['arb', 'arbitrum-one'], primary: true, nativeToken: { symbol: 'ETH', decimals: 18 } },
+  { id: 'optimism', name: 'OP Mainnet', vm: 'evm', evmChainId: 10, onekeyNetworkId: 'evm--10', zerionId: 'optimism', debankId: 'op', aliases: ['op'], primary: true, nativeToken: { symbol: 'ETH', decimals: 18 } },
+  { id: 'base', name: 'Base', vm: 'evm', evmChainId: 8453, onekeyNetworkId: 'evm--8453', zerionId: 'base', debankId: 'base', aliases: [], primary: true, nativeToken: { symbol: 'ETH', decimals: 18 } },
+  { id: 'polygon', name: 'Polygon', vm: 'evm', evmChainId: 137, onekeyNetworkId: 'evm--137', zerionId: 'polygon', debankId: 'matic', aliases: ['matic', 'pol'], primary: true, nativeToken: { symbol: 'POL', decimals: 18 } },
+  { id: 'binance-smart-chain', name: 'BNB Smart Chain', vm: 'evm', evmChainId: 56, onekeyNetworkId: 'evm--56', zerionId: 'binance-smart-chain', debankId: 'bsc', aliases: ['bsc', 'bnb'], primary: true, nativeToken: { symbol: 'BNB', decimals: 18 } },
+  { id: 'avalanche', name: 'Avalanche C-Chain', vm: 'evm', evmChainId: 43114, onekeyNetworkId: 'evm--43114', zerionId: 'avalanche', debankId: 'avax', aliases: ['avax'], primary: true, nativeToken: { symbol: 'AVAX', decimals: 18 } },
+  { id: 'zksync-era', name: 'zkSync Era', vm: 'evm', evmChainId: 324, onekeyNetworkId: 'evm--324', zerionId: 'zksync-era', debankId: 'era', aliases: ['zksync', 'era'], primary: true, nativeToken: { symbol: 'ETH', decimals: 18 } },
+  { id: 'linea', name: 'Linea', vm: 'evm', evmChainId: 59144, onekeyNetworkId: 'evm--59144', zerionId: 'linea', debankId: 'linea', aliases: [], primary: true, nativeToken: { symbol: 'ETH', decimals: 18 } },
+  { id: 'scroll', name: 'Scroll', vm: 'evm', evmChainId: 534352, onekeyNetworkId: 'evm--534352', zerionId: 'scroll', debankId: 'scrl', aliases: [], primary: true, nativeToken: { symbol: 'ETH', decimals: 18 } },
+  { id: 'mantle', name: 'Mantle', vm: 'evm', evmChainId: 5000, onekeyNetworkId: 'evm--5000', zerionId: 'mantle', debankId: 'mnt', aliases: ['mnt'], primary: true, nativeToken: { symbol: 'MNT', decimals: 18 } },
+  { id: 'blast', name: 'Blast', vm: 'evm', evmChainId: 81457, onekeyNetworkId: 'evm--81457', zerionId: 'blast', debankId: 'blast', aliases: [], primary: true, nativeToken: { symbol: 'ETH', decimals: 18 } },
+  { id: 'fantom', name: 'Fantom', vm: 'evm', evmChainId: 250, onekeyNetworkId: 'evm--250', zerionId: 'fantom', debankId: 'ftm', aliases: ['ftm'], primary: true, nativeToken: { symbol: 'FTM', decimals: 18 } },
+  { id: 'xdai', name: 'Gnosis', vm: 'evm', evmChainId: 100, onekeyNetworkId: 'evm--100', zerionId: 'xdai', debankId: 'xdai', aliases: ['gnosis'], primary: true, nativeToken: { symbol: 'XDAI', decimals: 18 } },
+  { id: 'celo', name: 'Celo', vm: 'evm', evmChainId: 42220, onekeyNetworkId: 'evm--42220', zerionId: 'celo', debankId: 'celo', aliases: [], primary: true, nativeToken: { symbol: 'CELO', decimals: 18 } },
+  { id: 'berachain', name: 'Berachain', vm: 'evm', evmChainId: 80094, onekeyNetworkId: 'evm--80094', zerionId: 'berachain', debankId: 'bera', aliases: ['bera'], primary: true, nativeToken: { symbol: 'BERA', decimals: 18 } },
+  { id: 'polygon-zkevm', name: 'Polygon zkEVM', vm: 'evm', evmChainId: 1101, onekeyNetworkId: 'evm--1101', zerionId: 'polygon-zkevm', debankId: 'pze', aliases: ['zkevm'], primary: false, nativeToken: { symbol: 'ETH', decimals: 18 } },
+  { id: 'unichain', name: 'Unichain', vm: 'evm', evmChainId: 130, onekeyNetworkId: 'evm--130', zerionId: 'unichain', debankId: 'uni', aliases: ['uni'], primary: false, nativeToken: { symbol: 'ETH', decimals: 18 } },
+  { id: 'aurora', name: 'Aurora', vm: 'evm', evmChainId: 1313161554, onekeyNetworkId: 'evm--1313161554', zerionId: 'aurora', debankId: 'aurora', aliases: [], primary: false, nativeToken: { symbol: 'ETH', decimals: 18 } },
+  { id: 'monad', name: 'Monad', vm: 'evm', evmChainId: 143, onekeyNetworkId: 'evm--143', zerionId: 'monad', debankId: 'monad', aliases: ['mon'], primary: false, nativeToken: { symbol: 'MON', decimals: 18 } },
+  { id: 'sonic', name: 'Sonic', vm: 'evm', evmChainId: 146, onekeyNetworkId: 'evm--146', zerionId: 'sonic', debankId: 'sonic', aliases: ['s'], primary: false, nativeToken: { symbol: 'S', decimals: 18 } },
+  { id: 'okbchain', name: 'X Layer', vm: 'evm', evmChainId: 196, onekeyNetworkId: 'evm--196', zerionId: 'okbchain', debankId: 'xlayer', aliases: ['xlayer', 'x-layer', 'okb'], primary: false, nativeToken: { symbol: 'OKB', decimals: 18 } },
+  { id: 'world', name: 'World Chain', vm: 'evm', evmChainId: 480, onekeyNetworkId: 'evm--480', zerionId: 'world', debankId: 'world', aliases: ['worldchain', 'world-chain'], primary: false, nativeToken: { symbol: 'ETH', decimals: 18 } },
+  { id: 'xinfin-xdc', name: 'XDC Network', vm: 'evm', evmChainId: 50, onekeyNetworkId: 'evm--50', zerionId: 'xinfin-xdc', aliases: ['xdc'], primary: false, nativeToken: { symbol: 'XDC', decimals: 18 } },
+  { id: 'zora', name: 'Zora', vm: 'evm', evmChainId: 7777777, onekeyNetworkId: 'evm--7777777', zerionId: 'zora', debankId: 'zora', aliases: [], primary: false, nativeToken: { symbol: 'ETH', decimals: 18 } },
+  { id: 'plasma', name: 'Plasma', vm: 'evm', evmChainId: 9745, onekeyNetworkId: 'evm--9745', zerionId: 'plasma', debankId: 'plasma', aliases: ['xpl'], primary: false, nativeToken: { symbol: 'XPL', decimals: 18 } },
+  { id: 'hyperevm', name: 'HyperEVM', vm: 'evm', evmChainId: 999, onekeyNetworkId: 'evm--999', zerionId: 'hyperevm', debankId: 'hyper', aliases: ['hype', 'hyperliquid'], primary: false, nativeToken: { symbol: 'HYPE', decimals: 18 } },
+  { id: 'solana', name: 'Solana', vm: 'svm', onekeyNetworkId: 'sol--101', zerionId: 'solana', aliases: ['sol'], primary: false, nativeToken: { symbol: 'SOL', decimals: 9 } },
+  { id: 'tron', name: 'Tron', vm: 'tvm', onekeyNetworkId: 'tron--0x2b6653dc', aliases: ['trx'], primary: false, nativeToken: { symbol: 'TRX', decimals: 6 } },
+  { id: 'sui', name: 'Sui', vm: 'move', onekeyNetworkId: 'sui--mainnet', aliases: [], primary: false, nativeToken: { symbol: 'SUI', decimals: 9 } },
+  { id: 'aptos', name: 'Aptos', vm: 'move', onekeyNetworkId: 'aptos--1', aliases: ['apt'], primary: false, nativeToken: { symbol: 'APT', decimals: 8 } },
+  { id: 'bitcoin', name: 'Bitcoin', vm: 'utxo', onekeyNetworkId: 'btc--0', aliases: ['btc'], primary: false, nativeToken: { symbol: 'BTC', decimals: 8 } },
+];
+
+// 查找索引：canonical id / 别名 / Zerion id / OneKey networkId / DeBank id / EVM chainId 均可命中
+const CHAIN_INDEX = new Map<string, ChainDefinition>();
+
+CHAINS.forEach(chain => {
+  const keys = [chain.id, chain.zerionId, chain.onekeyNetworkId, chain.debankId, ...chain.aliases];
+  if (chain.evmChainId !== undefined) {
+    keys.push(String(chain.evmChainId), `eip155:${chain.evmChainId}`);
+  }
+  keys.forEach(key => {
+    if (key && !CHAIN_INDEX.has(key.toLowerCase())) {
+      CHAIN_INDEX.set(key.toLowerCase(), chain);
+    }
+  });
+});
+
+/**
+ * 查找链定义（支持 canonical id、别名、Zerion id、OneKey networkId、DeBank id、EVM chainId）
+ */
+export function resolveChain(value: string | number | undefined): ChainDefinition | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  return CHAIN_INDEX.get(String(value).trim().toLowerCase());
+}
+
+/**
+ * 归一化链名，未注册的链返回小写原值
+ */
+export function normalizeChainId(value: string): string {
+  return resolveChain(value)?.id || value.trim().toLowerCase();
+}
+
+/**
+ * 获取链对应的 OneKey networkId
+ */
+export function getOnekeyNetworkId(chain: string): string | undefined {
+  return resolveChain(chain)?.onekeyNetworkId;
+}
+
+/**
+ * 获取链对应的 DeBank chain id
+ */
+export function getDebankChainId(chain: string): string | undefined {
+  return resolveChain(chain)?.debankId;
+}
+
+/**
+ * 获取 OneKey 默认查询的主要网络
+ */
+export function getPrimaryOnekeyNetworkIds(): string[] {
+  return CHAINS
+    .filter(c => c.primary && c.onekeyNetworkId)
+    .map(c => c.onekeyNetworkId!);
+}
+
+/**
+ * 判断 token 是否为链的原生代币（地址缺失时按 symbol 判断）
+ */
+export function isNativeTokenSymbol(chain: string, symbol: string): boolean {
+  const def = resolveChain(chain);
+  return Boolean(def && def.nativeToken.symbol.toLowerCase() === symbol.toLowerCase());
+}
+
+/**
+ * 列出所有注册的链
+ */
+export function listChains(): ChainDefinition[] {
+  return CHAINS;
+}
+
+// 各数据源在链定义中对应的标识字段
+const PROVIDER_CHAIN_FIELDS: Record<string, 'zerionId' | 'onekeyNetworkId' | 'debankId'> = {
+  zerion: 'zerionId',
+  onekey: 'onekeyNetworkId',
+  debank: 'debankId',
+};
+
+/**
+ * 获取数据源支持的链（canonical id）
+ */
+export function getChainsSupportedBy(providerId: string): string[] {
+  const field = PROVIDER_CHAIN_FIELDS[providerId];
+  if (!field) return [];
+  return CHAINS.filter(c => c[field]).map(c => c.id);
+}
+
+/**
+ * 统计 Zerion / OneKey 的链支持差异
+ */
+export function getChainSupport(): ChainSupport {
+  const support: ChainSupport = { both: [], zerionOnly: [], onekeyOnly: [] };
+  CHAINS.forEach(chain => {
+    if (chain.zerionId && chain.onekeyNetworkId) {
+      support.both.push(chain.id);
+    } else if (chain.zerionId) {
+      support.zerionOnly.push(chain.id);
+    } else if (chain.onekeyNetworkId) {
+      support.onekeyOnly.push(chain.id);
+    }
+  });
+  return support;
+}
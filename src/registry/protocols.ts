@@ -0,0 +1,266 @@
+/**
+ * 协议别名注册表
+ * Zerion 与 OneKey 对同一协议的命名不同（如 `aave-v3` / `Aave V3` / `aave_v3`），
+ * 在各数据源归一化时统一映射到 canonical id，保证匹配 key 一致
+ */
+import type { Protocol } from '../types';
+
+/**
+ * 协议定义
+ */
+export interface ProtocolDefinition {
+  id: string;                          // canonical id
+  name: string;                        // 展示名称（logo 使用数据源返回的图标）
+  aliases: Record<string, string[]>;   // 各数据源的别名，key 为数据源 id（zerion / onekey / debank）
+}
+
+/**
+ * 未映射协议记录
+ */
+export interface UnmappedProtocol {
+  source: string;
+  rawId: string;
+  rawName?: string;
+  chains: string[];
+  occurrences: number;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+// 协议注册表，新增协议时在此维护
+const PROTOCOLS: ProtocolDefinition[] = [
+  {
+    id: 'aave-v3',
+    name: 'Aave V3',
+    aliases: { zerion: ['aave-v3', 'aave v3'], onekey: ['aave-v3', 'aave_v3', 'aave3', 'aavev3'], debank: ['aave3'] },
+  },
+  {
+    id: 'aave-v2',
+    name: 'Aave V2',
+    aliases: { zerion: ['aave-v2', 'aave v2', 'aave'], onekey: ['aave-v2', 'aave_v2', 'aave2', 'aave'], debank: ['aave2', 'aave'] },
+  },
+  {
+    id: 'compound-v3',
+    name: 'Compound V3',
+    aliases: { zerion: ['compound-v3', 'compound v3'], onekey: ['compound-v3', 'compound_v3', 'compound3', 'comet'], debank: ['compound3'] },
+  },
+  {
+    id: 'compound-v2',
+    name: 'Compound V2',
+    aliases: { zerion: ['compound', 'compound-v2'], onekey: ['compound', 'compound-v2', 'compound_v2'], debank: ['compound'] },
+  },
+  {
+    id: 'uniswap-v3',
+    name: 'Uniswap V3',
+    aliases: { zerion: ['uniswap-v3', 'uniswap v3'], onekey: ['uniswap-v3', 'uniswap_v3', 'uniswap3'], debank: ['uniswap3'] },
+  },
+  {
+    id: 'uniswap-v2',
+    name: 'Uniswap V2',
+    aliases: { zerion: ['uniswap-v2', 'uniswap v2', 'uniswap'], onekey: ['uniswap-v2', 'uniswap_v2', 'uniswap2'], debank: ['uniswap2', 'uniswap'] },
+  },
+  {
+    id: 'uniswap-v4',
+    name: 'Uniswap V4',
+    aliases: { zerion: ['uniswap-v4', 'uniswap v4'], onekey: ['uniswap-v4', 'uniswap_v4', 'uniswap4'], debank: ['uniswap4'] },
+  },
+  {
+    id: 'lido',
+    name: 'Lido',
+    aliases: { zerion: ['lido'], onekey: ['lido', 'lido-finance', 'lido_finance'], debank: ['lido'] },
+  },
+  {
+    id: 'rocket-pool',
+    name: 'Rocket Pool',
+    aliases: { zerion: ['rocket-pool', 'rocketpool'], onekey: ['rocket-pool', 'rocketpool', 'rocket_pool'], debank: ['rocketpool'] },
+  },
+  {
+    id: 'curve',
+    name: 'Curve',
+    aliases: { zerion: ['curve', 'curve-finance'], onekey: ['curve', 'curve-finance', 'curve_finance'], debank: ['curve'] },
+  },
+  {
+    id: 'convex',
+    name: 'Convex Finance',
+    aliases: { zerion: ['convex', 'convex-finance'], onekey: ['convex', 'convex-finance', 'convex_finance'], debank: ['convex'] },
+  },
+  {
+    id: 'morpho',
+    name: 'Morpho',
+    aliases: { zerion: ['morpho', 'morpho-blue'], onekey: ['morpho', 'morpho-blue', 'morpho_blue', 'morphoblue'], debank: ['morphoblue', 'morpho'] },
+  },
+  {
+    id: 'spark',
+    name: 'Spark',
+    aliases: { zerion: ['spark', 'spark-protocol'], onekey: ['spark', 'spark-lend', 'sparklend'], debank: ['spark'] },
+  },
+  {
+    id: 'pendle',
+    name: 'Pendle',
+    aliases: { zerion: ['pendle', 'pendle-v2'], onekey: ['pendle', 'pendle-v2', 'pendle_v2'], debank: ['pendle2', 'pendle'] },
+  },
+  {
+    id: 'eigenlayer',
+    name: 'EigenLayer',
+    aliases: { zerion: ['eigenlayer', 'eigen-layer'], onekey: ['eigenlayer', 'eigen-layer', 'eigen_layer'], debank: ['eigenlayer'] },
+  },
+  {
+    id: 'ethena',
+    name: 'Ethena',
+    aliases: { zerion: ['ethena'], onekey: ['ethena', 'ethena-usde'], debank: ['ethena'] },
+  },
+  {
+    id: 'gmx',
+    name: 'GMX',
+    aliases: { zerion: ['gmx', 'gmx-v2'], onekey: ['gmx', 'gmx-v2', 'gmx_v2'], debank: ['gmx', 'gmx2'] },
+  },
+  {
+    id: 'balancer-v2',
+    name: 'Balancer V2',
+    aliases: { zerion: ['balancer-v2', 'balancer'], onekey: ['balancer', 'balancer-v2', 'balancer_v2'], debank: ['balancer2', 'balancer'] },
+  },
+  {
+    id: 'yearn',
+    name: 'Yearn',
+    aliases: { zerion: ['yearn', 'yearn-finance'], onekey: ['yearn', 'yearn-finance', 'yearn_finance'], debank: ['yearn2', 'yearn'] },
+  },
+  {
+    id: 'venus',
+    name: 'Venus',
+    aliases: { zerion: ['venus'], onekey: ['venus', 'venus-core', 'venus_core'], debank: ['venus'] },
+  },
+  {
+    id: 'pancakeswap-v3',
+    name: 'PancakeSwap V3',
+    aliases: { zerion: ['pancakeswap-v3', 'pancakeswap v3'], onekey: ['pancakeswap-v3', 'pancakeswap_v3', 'pancake-v3'], debank: ['pancakeswap3', 'pancakeswap'] },
+  },
+  {
+    id: 'aerodrome',
+    name: 'Aerodrome',
+    aliases: { zerion: ['aerodrome', 'aerodrome-finance'], onekey: ['aerodrome', 'aerodrome-finance', 'aerodrome_finance'], debank: ['aerodrome'] },
+  },
+  {
+    id: 'velodrome',
+    name: 'Velodrome',
+    aliases: { zerion: ['velodrome', 'velodrome-v2'], onekey: ['velodrome', 'velodrome-v2', 'velodrome_v2'], debank: ['velodrome2', 'velodrome'] },
+  },
+  {
+    id: 'fluid',
+    name: 'Fluid',
+    aliases: { zerion: ['fluid', 'instadapp-fluid'], onekey: ['fluid', 'instadapp-fluid'], debank: ['fluid'] },
+  },
+  {
+    id: 'sky',
+    name: 'Sky',
+    aliases: { zerion: ['sky', 'maker', 'makerdao'], onekey: ['sky', 'maker', 'makerdao'], debank: ['sky', 'makerdao'] },
+  },
+];
+
+/**
+ * 归一化别名（小写，去掉空格、横线、下划线等符号）
+ */
+function normalizeAlias(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// 别名索引：`${source}:${alias}` -> 协议定义，以及不区分数据源的 canonical id / 名称索引
+const ALIAS_INDEX = new Map<string, ProtocolDefinition>();
+const CANONICAL_INDEX = new Map<string, ProtocolDefinition>();
+
+PROTOCOLS.forEach(def => {
+  CANONICAL_INDEX.set(normalizeAlias(def.id), def);
+  CANONICAL_INDEX.set(normalizeAlias(def.name), def);
+  Object.entries(def.aliases).forEach(([source, aliases]) => {
+    aliases.forEach(alias => ALIAS_INDEX.set(`${source}:${normalizeAlias(alias)}`, def));
+  });
+});
+
+// 尚未写入 KV 的未映射协议（isolate 内存缓冲，由 services/unmapped 定期合并到 KV）
+const pendingUnmapped = new Map<string, UnmappedProtocol>();
+
+/**
+ * 查找协议定义：先按数据源别名，再按 canonical id / 展示名称
+ */
+export function findProtocol(source: string, rawId: string, rawName?: string): ProtocolDefinition | undefined {
+  const candidates = [rawId, rawName].filter((v): v is string => Boolean(v)).map(normalizeAlias);
+  for (const candidate of candidates) {
+    const bySource = ALIAS_INDEX.get(`${source}:${candidate}`);
+    if (bySource) return bySource;
+  }
+  for (const candidate of candidates) {
+    const byCanonical = CANONICAL_INDEX.get(candidate);
+    if (byCanonical) return byCanonical;
+  }
+  return undefined;
+}
+
+/**
+ * 记录未映射协议
+ */
+function recordUnmappedProtocol(source: string, protocol: Protocol): void {
+  const key = `${source}:${protocol.id.toLowerCase()}`;
+  const now = new Date().toISOString();
+  const existing = pendingUnmapped.get(key);
+
+  if (existing) {
+    existing.occurrences++;
+    existing.lastSeen = now;
+    if (!existing.chains.includes(protocol.chain)) {
+      existing.chains.push(protocol.chain);
+    }
+    return;
+  }
+
+  pendingUnmapped.set(key, {
+    source,
+    rawId: protocol.id,
+    rawName: protocol.name,
+    chains: [protocol.chain],
+    occurrences: 1,
+    firstSeen: now,
+    lastSeen: now,
+  });
+}
+
+/**
+ * 将数据源的原始协议信息归一化为 canonical 协议
+ * 未命中注册表的协议保留原始 id，并记录到未映射列表
+ * @param source 数据源 id（zerion / onekey / debank）
+ * @param protocol 数据源转换出的原始协议信息
+ * @param isWallet 是否为钱包伪协议（不参与映射统计）
+ */
+export function normalizeProtocol(source: string, protocol: Protocol, isWallet: boolean = false): Protocol {
+  if (isWallet) {
+    return protocol;
+  }
+
+  const def = findProtocol(source, protocol.id, protocol.name);
+  if (!def) {
+    recordUnmappedProtocol(source, protocol);
+    return { ...protocol, rawId: protocol.id };
+  }
+
+  return {
+    id: def.id,
+    name: def.name,
+    chain: protocol.chain,
+    logo: protocol.logo,
+    rawId: protocol.id,
+  };
+}
+
+/**
+ * 列出注册表中的所有协议
+ */
+export function listProtocols(): ProtocolDefinition[] {
+  return PROTOCOLS;
+}
+
+/**
+ * 取出并清空内存中尚未写入 KV 的未映射协议
+ */
+export function drainUnmappedProtocols(): UnmappedProtocol[] {
+  const pending = Array.from(pendingUnmapped.values());
+  pendingUnmapped.clear();
+  return pending;
+}
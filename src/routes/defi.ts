@@ -2,137 +2,293 @@
  * DeFi 相关路由
  */
 import { Hono } from 'hono';
-import type { Env } from '../types';
-import * as zerionService from '../services/zerion';
-import * as onekeyService from '../services/onekey';
-import { compareDataSources } from '../services/compare';
+import type { Env, AggregateSort, PortfolioProvider } from '../types';
+import { aggregateByProtocol, aggregateByChain } from '../services/compare';
+import { runSourceComparison, runMultiSourceComparison, resolveFetchDeadline } from '../services/comparison';
+import { runBatchComparison } from '../services/batch';
+import { recordComparison, isCachedComparison } from '../services/snapshots';
+import { fetchDefiData, buildCacheHeaders } from '../services/cache';
+import { persistUnmappedProtocols } from '../services/unmapped';
+import { resolveProvider, getProvider } from '../providers';
+import { UpstreamTimeoutError } from '../utils/http';
+import {
+  type ParamGetter,
+  DEFAULT_MULTI_SOURCES,
+  MAX_SYNC_BATCH_SIZE,
+  parseFetchOptions,
+  parseCompareOptions,
+  parseBatchRequest,
+  resolveProviderPair,
+  bodyParams,
+} from './params';
 
 export const defiRoutes = new Hono<{ Bindings: Env }>();
 
 /**
- * 获取 Zerion 数据
- * GET /api/defi/zerion/:address
+ * 获取单个数据源的数据
+ * GET /api/defi/:provider/:address?pageSize=100&maxPages=20&deadlineMs=15000&fresh=true
+ * fresh=true 时跳过缓存；响应带 Cache-Control / Age 头
  */
-defiRoutes.get('/defi/zerion/:address', async (c) => {
+defiRoutes.get('/defi/:provider/:address', async (c) => {
   const address = c.req.param('address');
-  const apiKey = c.env.ZERION_API_KEY;
+  const { provider, error, status } = resolveProvider(c.req.param('provider'), c.env);
 
-  if (!apiKey) {
+  if (!provider) {
     return c.json({
       success: false,
-      message: 'ZERION_API_KEY not configured',
-    }, 500);
+      message: error,
+    }, status);
   }
 
   try {
-    const data = await zerionService.getAddressDefiData(address, apiKey);
-    return c.json({ success: true, data });
+    const options = resolveFetchDeadline(parseFetchOptions((key) => c.req.query(key)));
+    const data = await fetchDefiData(c.env, provider, address, options, c.req.query('fresh') === 'true');
+    return c.json({ success: true, data }, 200, buildCacheHeaders([data]));
   } catch (error: any) {
-    console.error('Zerion API error:', error);
+    console.error(`${provider.name} API error:`, error);
     return c.json({
       success: false,
-      message: error.message || 'Failed to fetch Zerion data',
-    }, 500);
+      message: error.message || `Failed to fetch ${provider.name} data`,
+    }, error instanceof UpstreamTimeoutError ? 504 : 500);
   }
 });
 
 /**
- * 获取 OneKey 数据
- * GET /api/defi/onekey/:address
+ * 对比数据源
+ * GET /api/compare/sources/:address?a=zerion&b=onekey&pageSize=100&maxPages=20&matchMode=address
+ * a / b: 数据源 id，A 作为基准，默认 zerion / onekey
+ * matchMode: address（合约地址优先，默认）| symbol（仅 symbol）
+ * failedChainPolicy: flag（失败链上的差异标记为 unreliable，默认）| exclude（失败链不参与对比）
+ * deadlineMs: 总时间预算（1000 ~ 120000），超时的 OneKey 网络标记为 timeout，返回其余网络的对比结果
+ * fresh: true 时跳过数据源结果缓存；两个数据源都命中缓存时不保存快照
+ * 阈值: relativePercent / absoluteUSD / minPositionValueUSD / dustUSD / priceDiffPercent
  */
-defiRoutes.get('/defi/onekey/:address', async (c) => {
+defiRoutes.get('/compare/sources/:address', async (c) => {
   const address = c.req.param('address');
-  const authToken = c.env.ONEKEY_AUTH_TOKEN;
+  const query: ParamGetter = (key) => c.req.query(key);
+  const { compareOptions, error: optionsError } = parseCompareOptions(query);
 
-  if (!authToken) {
+  if (optionsError) {
     return c.json({
       success: false,
-      message: 'ONEKEY_AUTH_TOKEN not configured',
-    }, 500);
+      message: optionsError,
+    }, 400);
+  }
+
+  const { providerA, providerB, error: providerError, status } = resolveProviderPair(query, c.env);
+  if (!providerA || !providerB) {
+    return c.json({
+      success: false,
+      message: providerError,
+    }, status);
   }
 
   try {
-    const data = await onekeyService.getAddressDefiData(address, authToken);
-    return c.json({ success: true, data });
+    const result = await runSourceComparison(c.env, address, providerA, providerB, {
+      fetchOptions: parseFetchOptions(query),
+      compareOptions,
+      fresh: query('fresh') === 'true',
+    });
+    // 两个数据源都命中缓存时与上一次对比相同，不重复保存快照
+    if (!isCachedComparison(result)) {
+      c.executionCtx.waitUntil(recordComparison(c.env, result, { a: providerA.id, b: providerB.id }));
+    }
+    return c.json({ success: true, data: result }, 200, buildCacheHeaders([result.addressA, result.addressB]));
   } catch (error: any) {
-    console.error('OneKey API error:', error);
+    console.error('Compare API error:', error);
     return c.json({
       success: false,
-      message: error.message || 'Failed to fetch OneKey data',
-    }, 500);
+      message: error.message || 'Failed to compare data sources',
+    }, error instanceof UpstreamTimeoutError ? 504 : 500);
   }
 });
 
 /**
- * 对比数据源
- * GET /api/compare/sources/:address
+ * 按协议 / 链聚合的对比结果
+ * GET /api/compare/sources/:address/protocols?sort=absDiff
+ * sort: absDiff（差异金额绝对值，默认）| diffPercent（差异百分比绝对值）
+ * 其余参数同 /api/compare/sources/:address；聚合视图不保存快照
  */
-defiRoutes.get('/compare/sources/:address', async (c) => {
+defiRoutes.get('/compare/sources/:address/protocols', async (c) => {
   const address = c.req.param('address');
-  const zerionApiKey = c.env.ZERION_API_KEY;
-  const onekeyAuthToken = c.env.ONEKEY_AUTH_TOKEN;
+  const query: ParamGetter = (key) => c.req.query(key);
+  const sort: AggregateSort = query('sort') === 'diffPercent' ? 'diffPercent' : 'absDiff';
+  const { compareOptions, error: optionsError } = parseCompareOptions(query);
 
-  if (!zerionApiKey) {
+  if (optionsError) {
     return c.json({
       success: false,
-      message: 'ZERION_API_KEY not configured',
-    }, 500);
+      message: optionsError,
+    }, 400);
   }
 
-  if (!onekeyAuthToken) {
+  const { providerA, providerB, error: providerError, status } = resolveProviderPair(query, c.env);
+  if (!providerA || !providerB) {
     return c.json({
       success: false,
-      message: 'ONEKEY_AUTH_TOKEN not configured',
-    }, 500);
+      message: providerError,
+    }, status);
+  }
+
+  try {
+    const result = await runSourceComparison(c.env, address, providerA, providerB, {
+      fetchOptions: parseFetchOptions(query),
+      compareOptions,
+      fresh: query('fresh') === 'true',
+    });
+    return c.json({
+      success: true,
+      data: {
+        summary: result.summary,
+        protocols: aggregateByProtocol(result, sort),
+        chains: aggregateByChain(result, sort),
+      },
+    }, 200, buildCacheHeaders([result.addressA, result.addressB]));
+  } catch (error: any) {
+    console.error('Compare aggregation API error:', error);
+    return c.json({
+      success: false,
+      message: error.message || 'Failed to aggregate comparison',
+    }, error instanceof UpstreamTimeoutError ? 504 : 500);
   }
+});
 
+/**
+ * 批量对比一组地址
+ * POST /api/compare/batch
+ * body: { addresses: ["0x...", { address: "0x...", label: "whale" }], a, b, matchMode, thresholds, concurrency, pageSize, maxPages }
+ * concurrency: 同时对比的地址数，默认 3，最大 10；addresses 最多 20 个，更多地址请用 POST /api/jobs
+ */
+defiRoutes.post('/compare/batch', async (c) => {
+  let body: Record<string, unknown>;
   try {
-    // 首先获取 Zerion 数据（作为基准）
-    console.log(`[Compare] Fetching Zerion data for ${address}`);
-    const zerionData = await zerionService.getAddressDefiData(address, zerionApiKey);
-    
-    console.log(`[Compare] Zerion found ${zerionData.positions.length} positions on ${zerionData.chains.length} chains`);
+    body = await c.req.json();
+  } catch {
+    return c.json({
+      success: false,
+      message: 'Invalid JSON body',
+    }, 400);
+  }
 
-    // 然后获取 OneKey 数据（使用 Zerion 返回的链列表来对齐查询范围）
-    console.log(`[Compare] Fetching OneKey data for ${address} on chains: ${zerionData.chains.join(', ')}`);
-    const onekeyData = await onekeyService.getAddressDefiData(
-      address, 
-      onekeyAuthToken,
-      zerionData.chains  // 传入 Zerion 的链列表，确保查询范围一致
-    );
+  const { request, error: requestError } = parseBatchRequest(body);
+  if (!request) {
+    return c.json({
+      success: false,
+      message: requestError,
+    }, 400);
+  }
 
-    console.log(`[Compare] OneKey found ${onekeyData.positions.length} positions`);
+  // 同步请求的子请求数有上限，地址多时改用异步任务
+  if (request.entries.length > MAX_SYNC_BATCH_SIZE) {
+    return c.json({
+      success: false,
+      message: `Too many addresses for a synchronous batch: ${request.entries.length} (max ${MAX_SYNC_BATCH_SIZE}), use POST /api/jobs with type "batch" instead`,
+    }, 400);
+  }
 
-    // 对比数据：Zerion 作为 A，OneKey 作为 B
-    const result = compareDataSources(zerionData, onekeyData);
+  // 提前校验数据源和环境变量，避免每个地址都失败
+  const { providerA, providerB, error: providerError, status } = resolveProviderPair(bodyParams(body), c.env);
+  if (!providerA || !providerB) {
+    return c.json({
+      success: false,
+      message: providerError,
+    }, status);
+  }
 
+  try {
+    const result = await runBatchComparison(c.env, request, (compared, entry) => {
+      c.executionCtx.waitUntil(recordComparison(c.env, compared, {
+        a: request.a,
+        b: request.b,
+        label: entry.label,
+      }));
+    });
     return c.json({ success: true, data: result });
   } catch (error: any) {
-    console.error('Compare API error:', error);
+    console.error('Batch compare API error:', error);
     return c.json({
       success: false,
-      message: error.message || 'Failed to compare data sources',
+      message: error.message || 'Failed to run batch comparison',
     }, 500);
   }
 });
 
 /**
- * Debug: 获取 Zerion 原始数据
- * GET /api/debug/zerion/raw/:address
+ * 多数据源对比（三个及以上数据源）
+ * GET /api/compare/multi/:address?sources=zerion,onekey,debank
+ * sources: 逗号分隔的数据源 id，第一个作为基准，默认 zerion,onekey,debank
+ * 其余参数同 /api/compare/sources/:address
  */
-defiRoutes.get('/debug/zerion/raw/:address', async (c) => {
+defiRoutes.get('/compare/multi/:address', async (c) => {
   const address = c.req.param('address');
-  const apiKey = c.env.ZERION_API_KEY;
+  const query: ParamGetter = (key) => c.req.query(key);
+  const { compareOptions, error: optionsError } = parseCompareOptions(query);
 
-  if (!apiKey) {
+  if (optionsError) {
     return c.json({
       success: false,
-      message: 'ZERION_API_KEY not configured',
-    }, 500);
+      message: optionsError,
+    }, 400);
+  }
+
+  const sourceIds = Array.from(new Set(
+    (query('sources') || DEFAULT_MULTI_SOURCES).split(',').map(id => id.trim()).filter(Boolean)
+  ));
+
+  // 两个数据源时中位数正好在两者中间，无法判断哪个离群
+  if (sourceIds.length < 3) {
+    return c.json({
+      success: false,
+      message: 'At least 3 sources are required, use /api/compare/sources/:address to compare two sources',
+    }, 400);
+  }
+
+  const providers: PortfolioProvider[] = [];
+  for (const id of sourceIds) {
+    const { provider, error, status } = resolveProvider(id, c.env);
+    if (!provider) {
+      return c.json({
+        success: false,
+        message: error,
+      }, status);
+    }
+    providers.push(provider);
   }
 
   try {
-    const data = await zerionService.getRawPositions(address, apiKey);
+    const result = await runMultiSourceComparison(c.env, address, providers, {
+      fetchOptions: parseFetchOptions(query),
+      compareOptions,
+      fresh: query('fresh') === 'true',
+    });
+    return c.json({ success: true, data: result }, 200, buildCacheHeaders(Object.values(result.data)));
+  } catch (error: any) {
+    console.error('Multi-source compare API error:', error);
+    return c.json({
+      success: false,
+      message: error.message || 'Failed to compare data sources',
+    }, error instanceof UpstreamTimeoutError ? 504 : 500);
+  }
+});
+
+/**
+ * Debug: 获取数据源原始数据
+ * GET /api/debug/:provider/raw/:address
+ * 其余 query 参数原样传给数据源（如 OneKey 的 ?networkId=evm--1）
+ */
+defiRoutes.get('/debug/:provider/raw/:address', async (c) => {
+  const address = c.req.param('address');
+  const { provider, error, status } = resolveProvider(c.req.param('provider'), c.env);
+
+  if (!provider) {
+    return c.json({
+      success: false,
+      message: error,
+    }, status);
+  }
+
+  try {
+    const data = await provider.getRaw(address, c.env, c.req.query());
     return c.json({ success: true, data });
   } catch (error: any) {
     console.error('Debug API error:', error);
@@ -144,66 +300,78 @@ defiRoutes.get('/debug/zerion/raw/:address', async (c) => {
 });
 
 /**
- * Debug: 获取 OneKey 原始数据
+ * Debug: 用录制的原始响应（fixture JSON）验证数据源转换逻辑
+ * POST /api/debug/:provider/transform/:address
+ * body 为数据源原始响应，不请求上游，也不需要配置环境变量；未映射的协议同样写入未映射列表
+ */
+defiRoutes.post('/debug/:provider/transform/:address', async (c) => {
+  const address = c.req.param('address');
+  const provider = getProvider(c.req.param('provider'));
+
+  if (!provider) {
+    return c.json({
+      success: false,
+      message: `Unknown provider: ${c.req.param('provider')}`,
+    }, 400);
+  }
+
+  if (!provider.transformRaw) {
+    return c.json({
+      success: false,
+      message: `${provider.name} does not support raw transform`,
+    }, 400);
+  }
+
+  try {
+    const raw = await c.req.json();
+    const data = provider.transformRaw(address, raw);
+    c.executionCtx.waitUntil(persistUnmappedProtocols(c.env.COMPARE_KV));
+    return c.json({ success: true, data });
+  } catch (error: any) {
+    console.error('Debug transform error:', error);
+    return c.json({
+      success: false,
+      message: error.message || 'Failed to transform raw data',
+    }, 400);
+  }
+});
+
+/**
+ * Debug: 获取 OneKey 单个网络的原始数据
  * GET /api/debug/onekey/raw/:address/:networkId
  */
 defiRoutes.get('/debug/onekey/raw/:address/:networkId', async (c) => {
   const address = c.req.param('address');
   const networkId = c.req.param('networkId');
-  const authToken = c.env.ONEKEY_AUTH_TOKEN;
+  const { provider, error, status } = resolveProvider('onekey', c.env);
 
-  if (!authToken) {
+  if (!provider) {
     return c.json({
       success: false,
-      message: 'ONEKEY_AUTH_TOKEN not configured',
-    }, 500);
+      message: error,
+    }, status);
   }
 
   try {
-    // 直接调用 OneKey API 返回原始数据
-    const headers: Record<string, string> = {
-      'Authorization': `Bearer ${authToken}`,
-      'X-Onekey-Request-ID': crypto.randomUUID(),
-      'X-Onekey-Request-Currency': 'usd',
-      'X-Onekey-Request-Locale': 'zh-cn',
-      'X-Onekey-Request-Theme': 'light',
-      'X-Onekey-Request-Platform': 'android-apk',
-      'X-Onekey-Request-Version': '5.19.0',
-      'X-Onekey-Request-Build-Number': '2000000000',
-      'X-Onekey-Request-Token': '',
-      'X-Onekey-Request-Currency-Value': '1.0',
-      'X-Onekey-Instance-Id': '88888888-8888-8888-8888-888888888888',
-      'x-onekey-wallet-type': 'hd',
-      'x-onekey-hide-asset-details': 'false',
-      'x-onekey-request-device-name': '',
-      'Content-Type': 'application/json',
+    const raw = await provider.getRaw(address, c.env, { networkId }) as {
+      status: number;
+      data?: unknown;
+      rawResponse?: string;
     };
 
-    const response = await fetch('https://wallet.onekeycn.com/wallet/v1/portfolio/positions', {
-      method: 'POST',
-      headers,
-      body: JSON.stringify({
-        networkId,
-        accountAddress: address,
-      }),
-    });
-
-    const responseText = await response.text();
-    
-    try {
-      const data = JSON.parse(responseText);
-      return c.json({ 
-        success: true, 
-        status: response.status,
-        data 
-      });
-    } catch {
+    if (raw.rawResponse !== undefined) {
       return c.json({ 
         success: false, 
-        status: response.status,
-        rawResponse: responseText.substring(0, 2000)
+        status: raw.status,
+        rawResponse: raw.rawResponse,
       });
     }
+
+    return c.json({ 
+      success: true, 
+      status: raw.status,
+      data: raw.data,
+    });
   } catch (error: any) {
     console.error('Debug OneKey API error:', error);
     return c.json({
@@ -0,0 +1,95 @@
+/**
+ * 异步对比任务路由
+ */
+import { Hono } from 'hono';
+import type { Env, CompareJobType } from '../types';
+import { parseBatchRequest, resolveProviderPair, bodyParams } from './params';
+
+export const jobRoutes = new Hono<{ Bindings: Env }>();
+
+/**
+ * 创建异步对比任务
+ * POST /api/jobs
+ * body: { type: "compare", address: "0x...", ... } 或 { type: "batch", addresses: [...], ... }
+ * 其余字段同 POST /api/compare/batch
+ */
+jobRoutes.post('/jobs', async (c) => {
+  let body: Record<string, unknown>;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({
+      success: false,
+      message: 'Invalid JSON body',
+    }, 400);
+  }
+
+  const type: CompareJobType = body.type === 'compare' ? 'compare' : 'batch';
+
+  // 单地址对比按只有一个地址的批量任务处理
+  const { request, error: requestError } = parseBatchRequest(
+    type === 'compare' ? { ...body, addresses: body.address ? [body.address] : [] } : body
+  );
+  if (!request) {
+    return c.json({
+      success: false,
+      message: requestError,
+    }, 400);
+  }
+
+  const { providerA, providerB, error: providerError, status } = resolveProviderPair(bodyParams(body), c.env);
+  if (!providerA || !providerB) {
+    return c.json({
+      success: false,
+      message: providerError,
+    }, status);
+  }
+
+  try {
+    const id = c.env.COMPARE_JOBS.newUniqueId();
+    const job = await c.env.COMPARE_JOBS.get(id).start(id.toString(), type, request);
+    return c.json({ success: true, data: job }, 202);
+  } catch (error: any) {
+    console.error('Create job error:', error);
+    return c.json({
+      success: false,
+      message: error.message || 'Failed to create job',
+    }, 500);
+  }
+});
+
+/**
+ * 查询异步对比任务的进度和结果
+ * GET /api/jobs/:id?comparisons=false
+ * comparisons=false 时只返回每个地址的摘要，不返回完整对比结果
+ */
+jobRoutes.get('/jobs/:id', async (c) => {
+  const jobId = c.req.param('id');
+
+  let id: DurableObjectId;
+  try {
+    id = c.env.COMPARE_JOBS.idFromString(jobId);
+  } catch {
+    return c.json({
+      success: false,
+      message: `Invalid job id: ${jobId}`,
+    }, 400);
+  }
+
+  try {
+    const job = await c.env.COMPARE_JOBS.get(id).getJob(c.req.query('comparisons') !== 'false');
+    if (!job) {
+      return c.json({
+        success: false,
+        message: `Job not found: ${jobId}`,
+      }, 404);
+    }
+    return c.json({ success: true, data: job });
+  } catch (error: any) {
+    console.error('Get job error:', error);
+    return c.json({
+      success: false,
+      message: error.message || 'Failed to get job',
+    }, 500);
+  }
+});
@@ -0,0 +1,190 @@
+/**
+ * 路由参数解析
+ * 同时用于 query（c.req.query）和 JSON body（bodyParams）
+ */
+import type {
+  Env,
+  CompareThresholds,
+  ProviderFetchOptions,
+  CompareOptions,
+  PortfolioProvider,
+  BatchAddressEntry,
+  BatchCompareRequest
+} from '../types';
+import { resolveProvider } from '../providers';
+
+/**
+ * 参数读取函数（query 或 JSON body）
+ */
+export type ParamGetter = (key: string) => string | undefined;
+
+// 默认对比的数据源：Zerion 作为 A（基准），OneKey 作为 B
+export const DEFAULT_PROVIDER_A = 'zerion';
+export const DEFAULT_PROVIDER_B = 'onekey';
+
+// 默认参与多数据源对比的数据源
+export const DEFAULT_MULTI_SOURCES = 'zerion,onekey,debank';
+
+// 时间预算范围（毫秒）
+const MIN_DEADLINE_MS = 1_000;
+const MAX_DEADLINE_MS = 120_000;
+
+/**
+ * 解析分页参数和时间预算
+ * ?pageSize=100&maxPages=20&deadlineMs=15000
+ */
+export function parseFetchOptions(query: ParamGetter): ProviderFetchOptions {
+  const pageSize = parseInt(query('pageSize') || '', 10);
+  const maxPages = parseInt(query('maxPages') || '', 10);
+  const deadlineMs = parseInt(query('deadlineMs') || '', 10);
+  return {
+    pageSize: Number.isFinite(pageSize) && pageSize > 0 ? pageSize : undefined,
+    maxPages: Number.isFinite(maxPages) && maxPages > 0 ? maxPages : undefined,
+    deadlineMs: Number.isFinite(deadlineMs) && deadlineMs > 0
+      ? Math.min(Math.max(deadlineMs, MIN_DEADLINE_MS), MAX_DEADLINE_MS)
+      : undefined,
+  };
+}
+
+// 可通过 query 传入的阈值字段
+const THRESHOLD_KEYS: Array<keyof CompareThresholds> = ['relativePercent', 'absoluteUSD', 'minPositionValueUSD', 'dustUSD', 'priceDiffPercent'];
+
+/**
+ * 解析对比阈值
+ * ?relativePercent=1&absoluteUSD=500&minPositionValueUSD=1&dustUSD=0.5&priceDiffPercent=1
+ * 非法值（非数字或负数）返回 error
+ */
+export function parseThresholds(query: ParamGetter): {
+  thresholds: Partial<CompareThresholds>;
+  error?: string;
+} {
+  const thresholds: Partial<CompareThresholds> = {};
+
+  for (const key of THRESHOLD_KEYS) {
+    const raw = query(key);
+    if (raw === undefined || raw === '') continue;
+
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < 0) {
+      return { thresholds, error: `Invalid threshold ${key}: ${raw}` };
+    }
+    thresholds[key] = value;
+  }
+
+  return { thresholds };
+}
+
+/**
+ * 解析对比选项（匹配模式 + 阈值 + 失败链处理方式）
+ */
+export function parseCompareOptions(query: ParamGetter): { compareOptions: CompareOptions; error?: string } {
+  const { thresholds, error } = parseThresholds(query);
+  const matchMode = query('matchMode') === 'symbol' ? 'symbol' : 'address';
+  const failedChainPolicy = query('failedChainPolicy') === 'exclude' ? 'exclude' : 'flag';
+  return { compareOptions: { matchMode, thresholds, failedChainPolicy }, error };
+}
+
+/**
+ * 解析要对比的两个数据源（?a=zerion&b=onekey）
+ */
+export function resolveProviderPair(query: ParamGetter, env: Env): {
+  providerA?: PortfolioProvider;
+  providerB?: PortfolioProvider;
+  error?: string;
+  status?: 400 | 500;
+} {
+  const resolvedA = resolveProvider(query('a') || DEFAULT_PROVIDER_A, env);
+  if (!resolvedA.provider) return resolvedA;
+
+  const resolvedB = resolveProvider(query('b') || DEFAULT_PROVIDER_B, env);
+  if (!resolvedB.provider) return resolvedB;
+
+  return { providerA: resolvedA.provider, providerB: resolvedB.provider };
+}
+
+/**
+ * 将 JSON 对象包装为参数读取函数
+ */
+export function bodyParams(body: Record<string, unknown> | undefined): ParamGetter {
+  return (key) => {
+    const value = body?.[key];
+    return value === undefined || value === null ? undefined : String(value);
+  };
+}
+
+// 单次批量对比最多的地址数（异步任务）
+export const MAX_BATCH_SIZE = 100;
+
+// 同步批量对比最多的地址数：每个地址约 20 ~ 30 个子请求（上游 + KV），需留在单次调用的子请求上限（1000）内
+export const MAX_SYNC_BATCH_SIZE = 20;
+
+// 批量对比的默认 / 最大并发数
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+export const MAX_BATCH_CONCURRENCY = 10;
+
+/**
+ * 解析批量对比的地址列表
+ * 支持字符串或 { address, label } 对象，重复地址只保留第一个
+ */
+function parseBatchEntries(raw: unknown): { entries: BatchAddressEntry[]; error?: string } {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return { entries: [], error: 'addresses must be a non-empty array' };
+  }
+
+  const entries: BatchAddressEntry[] = [];
+  const seen = new Set<string>();
+
+  for (const item of raw) {
+    const address = typeof item === 'string' ? item : item?.address;
+    if (typeof address !== 'string' || address.trim() === '') {
+      return { entries, error: `Invalid address entry: ${JSON.stringify(item)}` };
+    }
+
+    const normalized = address.trim().toLowerCase();
+    if (seen.has(normalized)) continue;
+    seen.add(normalized);
+
+    const label = typeof item === 'object' && typeof item.label === 'string' ? item.label : undefined;
+    entries.push({ address: address.trim(), label });
+  }
+
+  if (entries.length > MAX_BATCH_SIZE) {
+    return { entries, error: `Too many addresses: ${entries.length} (max ${MAX_BATCH_SIZE})` };
+  }
+
+  return { entries };
+}
+
+/**
+ * 解析批量对比请求体
+ * { addresses, a, b, matchMode, thresholds: { ... }, concurrency, pageSize, maxPages, fresh }
+ * 阈值既可以放在 thresholds 对象中，也可以直接放在顶层
+ */
+export function parseBatchRequest(body: Record<string, unknown>): { request?: BatchCompareRequest; error?: string } {
+  const { entries, error: entriesError } = parseBatchEntries(body.addresses);
+  if (entriesError) return { error: entriesError };
+
+  const thresholdBody = typeof body.thresholds === 'object' && body.thresholds !== null
+    ? body.thresholds as Record<string, unknown>
+    : {};
+  const params = bodyParams({ ...body, ...thresholdBody });
+
+  const { compareOptions, error: optionsError } = parseCompareOptions(params);
+  if (optionsError) return { error: optionsError };
+
+  const concurrency = parseInt(params('concurrency') || '', 10);
+
+  return {
+    request: {
+      entries,
+      a: params('a') || DEFAULT_PROVIDER_A,
+      b: params('b') || DEFAULT_PROVIDER_B,
+      concurrency: Number.isFinite(concurrency) && concurrency > 0
+        ? Math.min(concurrency, MAX_BATCH_CONCURRENCY)
+        : DEFAULT_BATCH_CONCURRENCY,
+      fetchOptions: parseFetchOptions(params),
+      compareOptions,
+      fresh: params('fresh') === 'true',
+    },
+  };
+}
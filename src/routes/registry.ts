@@ -0,0 +1,65 @@
+/**
+ * 注册表相关路由（数据源、协议映射、链注册表）
+ */
+import { Hono } from 'hono';
+import type { Env } from '../types';
+import { listProtocols } from '../registry/protocols';
+import { listUnmappedProtocols } from '../services/unmapped';
+import { listChains, getChainSupport } from '../registry/chains';
+import { listProviders, getMissingSecrets } from '../providers';
+
+export const registryRoutes = new Hono<{ Bindings: Env }>();
+
+/**
+ * 获取已注册的数据源及其配置状态
+ * GET /api/providers
+ */
+registryRoutes.get('/providers', (c) => {
+  const providers = listProviders().map(p => ({
+    id: p.id,
+    name: p.name,
+    requiredSecrets: p.requiredSecrets,
+    configured: getMissingSecrets(p, c.env).length === 0,
+    supportedChains: p.supportedChains,
+  }));
+  return c.json({ success: true, data: providers });
+});
+
+/**
+ * 获取协议映射注册表
+ * GET /api/protocols
+ */
+registryRoutes.get('/protocols', (c) => {
+  return c.json({ success: true, data: listProtocols() });
+});
+
+/**
+ * 获取对比过程中出现但尚未映射的协议
+ * GET /api/protocols/unmapped
+ */
+registryRoutes.get('/protocols/unmapped', async (c) => {
+  try {
+    const protocols = await listUnmappedProtocols(c.env.COMPARE_KV);
+    return c.json({ success: true, data: protocols });
+  } catch (error: any) {
+    console.error('Unmapped protocols API error:', error);
+    return c.json({
+      success: false,
+      message: error.message || 'Failed to list unmapped protocols',
+    }, 500);
+  }
+});
+
+/**
+ * 获取链注册表及两个数据源的链支持差异
+ * GET /api/chains
+ */
+registryRoutes.get('/chains', (c) => {
+  return c.json({
+    success: true,
+    data: {
+      chains: listChains(),
+      support: getChainSupport(),
+    },
+  });
+});
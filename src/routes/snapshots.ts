@@ -0,0 +1,108 @@
+/**
+ * 对比快照路由
+ */
+import { Hono } from 'hono';
+import type { Env } from '../types';
+import { getSnapshot, listSnapshots, DEFAULT_HISTORY_LIMIT } from '../services/snapshots';
+import { diffSnapshots } from '../services/temporal';
+import { type ParamGetter, parseCompareOptions } from './params';
+
+export const snapshotRoutes = new Hono<{ Bindings: Env }>();
+
+/**
+ * 获取地址的历史对比快照（最新的在前，只返回摘要）
+ * GET /api/compare/history/:address?limit=20&cursor=...
+ */
+snapshotRoutes.get('/compare/history/:address', async (c) => {
+  const address = c.req.param('address');
+  const limit = parseInt(c.req.query('limit') || '', 10);
+
+  try {
+    const data = await listSnapshots(
+      c.env.COMPARE_KV,
+      address,
+      Number.isFinite(limit) && limit > 0 ? limit : DEFAULT_HISTORY_LIMIT,
+      c.req.query('cursor')
+    );
+    return c.json({ success: true, data });
+  } catch (error: any) {
+    console.error('Snapshot history error:', error);
+    return c.json({
+      success: false,
+      message: error.message || 'Failed to list snapshots',
+    }, 500);
+  }
+});
+
+/**
+ * 获取单个对比快照（含完整对比结果）
+ * GET /api/compare/snapshots/:id
+ */
+snapshotRoutes.get('/compare/snapshots/:id', async (c) => {
+  const id = c.req.param('id');
+
+  try {
+    const snapshot = await getSnapshot(c.env.COMPARE_KV, id);
+    if (!snapshot) {
+      return c.json({
+        success: false,
+        message: `Snapshot not found: ${id}`,
+      }, 404);
+    }
+    return c.json({ success: true, data: snapshot });
+  } catch (error: any) {
+    console.error('Snapshot API error:', error);
+    return c.json({
+      success: false,
+      message: error.message || 'Failed to get snapshot',
+    }, 500);
+  }
+});
+
+/**
+ * 同一数据源两个快照之间的时间对比（新开 / 关闭 / 价值变化的 position）
+ * GET /api/compare/snapshots/:id/diff/:otherId?provider=onekey
+ * provider: 要对比的数据源 id，两个快照都必须包含，默认为第一个快照的数据源 B
+ * 两个快照按数据获取时间排序，与参数顺序无关；阈值参数同 /api/compare/sources/:address
+ */
+snapshotRoutes.get('/compare/snapshots/:id/diff/:otherId', async (c) => {
+  const query: ParamGetter = (key) => c.req.query(key);
+  const { compareOptions, error: optionsError } = parseCompareOptions(query);
+
+  if (optionsError) {
+    return c.json({
+      success: false,
+      message: optionsError,
+    }, 400);
+  }
+
+  try {
+    const ids = [c.req.param('id'), c.req.param('otherId')];
+    const [snapshot, otherSnapshot] = await Promise.all(ids.map(id => getSnapshot(c.env.COMPARE_KV, id)));
+
+    if (!snapshot || !otherSnapshot) {
+      return c.json({
+        success: false,
+        message: `Snapshot not found: ${snapshot ? ids[1] : ids[0]}`,
+      }, 404);
+    }
+
+    const provider = query('provider') || snapshot.providers.b;
+
+    try {
+      const data = diffSnapshots(snapshot, otherSnapshot, provider, compareOptions);
+      return c.json({ success: true, data });
+    } catch (error: any) {
+      return c.json({
+        success: false,
+        message: error.message,
+      }, 400);
+    }
+  } catch (error: any) {
+    console.error('Snapshot diff API error:', error);
+    return c.json({
+      success: false,
+      message: error.message || 'Failed to diff snapshots',
+    }, 500);
+  }
+});
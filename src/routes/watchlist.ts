@@ -0,0 +1,231 @@
+/**
+ * 监控列表路由
+ * QA 可直接增删监控的钱包，无需重新部署
+ */
+import { Hono } from 'hono';
+import type { Env, WatchlistEntry } from '../types';
+import { getProvider } from '../providers';
+import {
+  listWatchlist,
+  getWatchlistEntry,
+  putWatchlistEntry,
+  deleteWatchlistEntry,
+  getLatestHealthReport,
+  MAX_WATCHLIST_SIZE,
+} from '../services/watchlist';
+import { DEFAULT_PROVIDER_A, DEFAULT_PROVIDER_B, bodyParams, parseThresholds } from './params';
+
+export const watchlistRoutes = new Hono<{ Bindings: Env }>();
+
+// 标签最大长度（监控条目同时保存在 KV metadata 中，上限 1024 字节）
+const MAX_LABEL_LENGTH = 100;
+
+/**
+ * 根据请求体生成监控条目，existing 存在时只覆盖传入的字段
+ */
+function buildWatchlistEntry(
+  address: string,
+  body: Record<string, unknown>,
+  existing?: WatchlistEntry | null
+): { entry?: WatchlistEntry; error?: string } {
+  const now = new Date().toISOString();
+  const entry: WatchlistEntry = existing
+    ? { ...existing, updatedAt: now }
+    : { address: address.toLowerCase(), a: DEFAULT_PROVIDER_A, b: DEFAULT_PROVIDER_B, createdAt: now, updatedAt: now };
+
+  if (body.label !== undefined) {
+    if (typeof body.label !== 'string' || body.label.length > MAX_LABEL_LENGTH) {
+      return { error: `label must be a string of at most ${MAX_LABEL_LENGTH} characters` };
+    }
+    entry.label = body.label || undefined;
+  }
+
+  for (const side of ['a', 'b'] as const) {
+    if (body[side] === undefined) continue;
+    const provider = getProvider(String(body[side]));
+    if (!provider) {
+      return { error: `Unknown provider: ${body[side]}` };
+    }
+    entry[side] = provider.id;
+  }
+
+  if (body.matchMode !== undefined) {
+    entry.matchMode = body.matchMode === 'symbol' ? 'symbol' : 'address';
+  }
+
+  if (body.thresholds !== undefined) {
+    const { thresholds, error } = parseThresholds(bodyParams(body.thresholds as Record<string, unknown>));
+    if (error) return { error };
+    entry.thresholds = thresholds;
+  }
+
+  return { entry };
+}
+
+/**
+ * 获取监控列表
+ * GET /api/watchlist
+ */
+watchlistRoutes.get('/watchlist', async (c) => {
+  try {
+    const entries = await listWatchlist(c.env.COMPARE_KV);
+    return c.json({ success: true, data: entries });
+  } catch (error: any) {
+    console.error('Watchlist API error:', error);
+    return c.json({
+      success: false,
+      message: error.message || 'Failed to list watchlist',
+    }, 500);
+  }
+});
+
+/**
+ * 获取最近一次定时监控的健康报告
+ * GET /api/watchlist/health
+ */
+watchlistRoutes.get('/watchlist/health', async (c) => {
+  try {
+    const report = await getLatestHealthReport(c.env.COMPARE_KV);
+    if (!report) {
+      return c.json({
+        success: false,
+        message: 'No health report yet',
+      }, 404);
+    }
+    return c.json({ success: true, data: report });
+  } catch (error: any) {
+    console.error('Watchlist health API error:', error);
+    return c.json({
+      success: false,
+      message: error.message || 'Failed to get health report',
+    }, 500);
+  }
+});
+
+/**
+ * 添加钱包到监控列表（已存在时覆盖）
+ * POST /api/watchlist
+ * body: { address, label?, a?, b?, matchMode?, thresholds? }
+ */
+watchlistRoutes.post('/watchlist', async (c) => {
+  let body: Record<string, unknown>;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({
+      success: false,
+      message: 'Invalid JSON body',
+    }, 400);
+  }
+
+  if (typeof body.address !== 'string' || body.address.trim() === '') {
+    return c.json({
+      success: false,
+      message: 'address is required',
+    }, 400);
+  }
+
+  const { entry, error } = buildWatchlistEntry(body.address.trim(), body);
+  if (!entry) {
+    return c.json({
+      success: false,
+      message: error,
+    }, 400);
+  }
+
+  try {
+    const [existing, entries] = await Promise.all([
+      getWatchlistEntry(c.env.COMPARE_KV, entry.address),
+      listWatchlist(c.env.COMPARE_KV),
+    ]);
+
+    if (!existing && entries.length >= MAX_WATCHLIST_SIZE) {
+      return c.json({
+        success: false,
+        message: `Watchlist is full (max ${MAX_WATCHLIST_SIZE})`,
+      }, 400);
+    }
+
+    if (existing) entry.createdAt = existing.createdAt;
+    await putWatchlistEntry(c.env.COMPARE_KV, entry);
+    return c.json({ success: true, data: entry }, existing ? 200 : 201);
+  } catch (error: any) {
+    console.error('Watchlist API error:', error);
+    return c.json({
+      success: false,
+      message: error.message || 'Failed to add to watchlist',
+    }, 500);
+  }
+});
+
+/**
+ * 更新监控的钱包（只修改传入的字段）
+ * PUT /api/watchlist/:address
+ */
+watchlistRoutes.put('/watchlist/:address', async (c) => {
+  const address = c.req.param('address');
+
+  let body: Record<string, unknown>;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({
+      success: false,
+      message: 'Invalid JSON body',
+    }, 400);
+  }
+
+  try {
+    const existing = await getWatchlistEntry(c.env.COMPARE_KV, address);
+    if (!existing) {
+      return c.json({
+        success: false,
+        message: `Address not in watchlist: ${address}`,
+      }, 404);
+    }
+
+    const { entry, error } = buildWatchlistEntry(address, body, existing);
+    if (!entry) {
+      return c.json({
+        success: false,
+        message: error,
+      }, 400);
+    }
+
+    await putWatchlistEntry(c.env.COMPARE_KV, entry);
+    return c.json({ success: true, data: entry });
+  } catch (error: any) {
+    console.error('Watchlist API error:', error);
+    return c.json({
+      success: false,
+      message: error.message || 'Failed to update watchlist',
+    }, 500);
+  }
+});
+
+/**
+ * 从监控列表中移除钱包
+ * DELETE /api/watchlist/:address
+ */
+watchlistRoutes.delete('/watchlist/:address', async (c) => {
+  const address = c.req.param('address');
+
+  try {
+    const existing = await getWatchlistEntry(c.env.COMPARE_KV, address);
+    if (!existing) {
+      return c.json({
+        success: false,
+        message: `Address not in watchlist: ${address}`,
+      }, 404);
+    }
+
+    await deleteWatchlistEntry(c.env.COMPARE_KV, address);
+    return c.json({ success: true, data: existing });
+  } catch (error: any) {
+    console.error('Watchlist API error:', error);
+    return c.json({
+      success: false,
+      message: error.message || 'Failed to remove from watchlist',
+    }, 500);
+  }
+});
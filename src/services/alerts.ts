@@ -0,0 +1,284 @@
+/**
+ * 差异告警
+ * 对比结果触发告警规则时，向配置的 webhook（Slack / Lark 兼容格式）发送摘要和快照链接；
+ * 每条告警按指纹在 KV 中记录，静默时间内相同的差异不会重复发送
+ *
+ * KV key:
+ *   alert:<address>:<a>:<b>:<指纹>    已发送的告警，按静默时间过期
+ */
+import type {
+  AlertFinding,
+  AlertRules,
+  DataSourceCompareResult,
+  Env,
+  Position
+} from '../types';
+
+const ALERT_PREFIX = 'alert:';
+
+export const DEFAULT_ALERT_RULES: AlertRules = {
+  totalDiffPercent: 5,
+  missingProtocolUSD: 100,
+  oneSidedPositionUSD: 10_000,
+};
+
+const DEFAULT_DEDUP_TTL_HOURS = 24;
+
+// KV expirationTtl 最小 60 秒
+const MIN_DEDUP_TTL_SECONDS = 60;
+
+/**
+ * webhook 消息格式
+ */
+type WebhookFormat = 'slack' | 'lark' | 'generic';
+
+/**
+ * 告警上下文
+ */
+export interface AlertContext {
+  a: string;
+  b: string;
+  label?: string;
+  snapshotId?: string;
+}
+
+/**
+ * 读取告警规则（ALERT_RULES 为 JSON，未配置的字段使用默认值）
+ */
+export function resolveAlertRules(env: Env): AlertRules {
+  if (!env.ALERT_RULES) return DEFAULT_ALERT_RULES;
+
+  try {
+    return { ...DEFAULT_ALERT_RULES, ...JSON.parse(env.ALERT_RULES) };
+  } catch (error) {
+    console.error('[Alerts] Invalid ALERT_RULES, using defaults:', error);
+    return DEFAULT_ALERT_RULES;
+  }
+}
+
+/**
+ * 读取 webhook 列表
+ */
+function getWebhookUrls(env: Env): string[] {
+  return (env.ALERT_WEBHOOK_URLS || '')
+    .split(',')
+    .map(url => url.trim())
+    .filter(Boolean);
+}
+
+/**
+ * 根据 webhook 域名识别消息格式
+ */
+function detectWebhookFormat(url: string): WebhookFormat {
+  const host = new URL(url).hostname;
+  if (host.endsWith('slack.com')) return 'slack';
+  if (host.endsWith('feishu.cn') || host.endsWith('larksuite.com')) return 'lark';
+  return 'generic';
+}
+
+/**
+ * 格式化金额
+ */
+function formatUSD(value: number): string {
+  return `$${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * position 的简短描述
+ */
+function describePosition(position: Position): string {
+  const symbols = position.tokens.slice(0, 3).map(t => t.token.symbol).join('/');
+  return `${position.protocol.name} ${position.type} ${symbols} (${position.protocol.chain})`;
+}
+
+/**
+ * 按规则检查对比结果
+ */
+export function evaluateAlertRules(
+  result: DataSourceCompareResult,
+  rules: AlertRules,
+  context: AlertContext
+): AlertFinding[] {
+  const findings: AlertFinding[] = [];
+  const { summary } = result;
+
+  // 总差异（有差异位于请求失败的链上时总差异不可信，跳过）
+  if (
+    rules.totalDiffPercent !== null
+    && summary.unreliablePositions === 0
+    && Math.abs(summary.totalValueDiffPercent) > rules.totalDiffPercent
+  ) {
+    findings.push({
+      rule: 'total_diff',
+      fingerprint: 'total_diff',
+      message: `Total diff ${summary.totalValueDiffPercent.toFixed(2)}% (${formatUSD(summary.totalValueDiffUSD)}) exceeds ${rules.totalDiffPercent}%`,
+      valueUSD: Math.abs(summary.totalValueDiffUSD),
+    });
+  }
+
+  // 某协议在 B 中完全缺失
+  if (rules.missingProtocolUSD !== null) {
+    const protocols = new Map<string, { name: string; chain: string; valueUSD: number; missing: boolean }>();
+
+    for (const diff of result.positionDiffs) {
+      const position = diff.positionA || diff.positionB;
+      if (!position || diff.unreliable) continue;
+
+      const key = `${position.protocol.id}:${diff.chain}`;
+      if (!protocols.has(key)) {
+        protocols.set(key, { name: diff.protocol, chain: diff.chain, valueUSD: 0, missing: true });
+      }
+
+      const protocol = protocols.get(key)!;
+      protocol.valueUSD += Math.abs(diff.positionA?.totalValueUSD || 0);
+      if (diff.positionB) protocol.missing = false;
+    }
+
+    for (const [key, protocol] of protocols) {
+      if (!protocol.missing || protocol.valueUSD <= rules.missingProtocolUSD) continue;
+      findings.push({
+        rule: 'missing_protocol',
+        fingerprint: `missing_protocol:${key}`,
+        message: `${protocol.name} (${protocol.chain}) is missing in ${context.b}, ${formatUSD(protocol.valueUSD)} in ${context.a}`,
+        valueUSD: protocol.valueUSD,
+      });
+    }
+  }
+
+  // 只在一个数据源中存在的大额 position
+  if (rules.oneSidedPositionUSD !== null) {
+    for (const diff of result.positionDiffs) {
+      if (diff.unreliable || (diff.diffType !== 'added' && diff.diffType !== 'removed')) continue;
+
+      const position = (diff.positionA || diff.positionB)!;
+      const valueUSD = Math.abs(position.totalValueUSD);
+      if (valueUSD <= rules.oneSidedPositionUSD) continue;
+
+      const side = diff.diffType === 'removed' ? context.a : context.b;
+      findings.push({
+        rule: 'one_sided_position',
+        fingerprint: `one_sided:${side}:${position.protocol.id}:${diff.chain}:${position.type}:${position.tokens.map(t => t.token.symbol).sort().join('/')}`,
+        message: `Position only in ${side}: ${describePosition(position)} ${formatUSD(valueUSD)}`,
+        valueUSD,
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * 告警去重 key
+ */
+function alertKey(address: string, context: AlertContext, fingerprint: string): string {
+  return `${ALERT_PREFIX}${address.toLowerCase()}:${context.a}:${context.b}:${fingerprint}`;
+}
+
+/**
+ * 生成告警文本
+ */
+function buildAlertText(env: Env, result: DataSourceCompareResult, findings: AlertFinding[], context: AlertContext): string {
+  const address = result.addressA.address;
+  const lines = [
+    `[DeFi Compare] ${address}${context.label ? ` (${context.label})` : ''}: ${context.a} vs ${context.b}`,
+    ...findings.map(f => `• ${f.message}`),
+  ];
+
+  if (context.snapshotId) {
+    const baseUrl = (env.PUBLIC_BASE_URL || '').replace(/\/$/, '');
+    lines.push(`Snapshot: ${baseUrl}/api/compare/snapshots/${context.snapshotId}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * 按 webhook 格式生成请求体
+ */
+function buildWebhookPayload(
+  format: WebhookFormat,
+  text: string,
+  result: DataSourceCompareResult,
+  findings: AlertFinding[],
+  context: AlertContext
+): unknown {
+  if (format === 'slack') {
+    return { text };
+  }
+
+  if (format === 'lark') {
+    return { msg_type: 'text', content: { text } };
+  }
+
+  return {
+    text,
+    address: result.addressA.address,
+    label: context.label,
+    providers: { a: context.a, b: context.b },
+    snapshotId: context.snapshotId,
+    summary: result.summary,
+    findings,
+  };
+}
+
+/**
+ * 检查对比结果并发送告警
+ * 未配置 webhook 时直接返回；发送失败只记录日志
+ * @returns 实际发送的告警（去重后）
+ */
+export async function processAlerts(
+  env: Env,
+  result: DataSourceCompareResult,
+  context: AlertContext
+): Promise<AlertFinding[]> {
+  const urls = getWebhookUrls(env);
+  if (urls.length === 0) return [];
+
+  const findings = evaluateAlertRules(result, resolveAlertRules(env), context);
+  if (findings.length === 0) return [];
+
+  // 去重：静默时间内已发送过的指纹不再发送
+  const address = result.addressA.address;
+  const sent = await Promise.all(
+    findings.map(f => env.COMPARE_KV.get(alertKey(address, context, f.fingerprint)))
+  );
+  const fresh = findings.filter((_, index) => sent[index] === null);
+
+  if (fresh.length === 0) {
+    console.log(`[Alerts] ${findings.length} findings for ${address} already alerted, skipped`);
+    return [];
+  }
+
+  const text = buildAlertText(env, result, fresh, context);
+  const deliveries = await Promise.allSettled(urls.map(async url => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(buildWebhookPayload(detectWebhookFormat(url), text, result, fresh, context)),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook error: ${response.status} - ${(await response.text()).substring(0, 200)}`);
+    }
+  }));
+
+  deliveries.forEach((delivery, index) => {
+    if (delivery.status === 'rejected') {
+      console.error(`[Alerts] Failed to deliver to webhook #${index}:`, delivery.reason);
+    }
+  });
+
+  // 至少一个 webhook 成功才记录指纹，全部失败时下次继续尝试
+  if (deliveries.some(d => d.status === 'fulfilled')) {
+    const ttlHours = Number(env.ALERT_DEDUP_TTL_HOURS) || DEFAULT_DEDUP_TTL_HOURS;
+    const expirationTtl = Math.max(Math.round(ttlHours * 3600), MIN_DEDUP_TTL_SECONDS);
+    await Promise.all(fresh.map(f => env.COMPARE_KV.put(
+      alertKey(address, context, f.fingerprint),
+      new Date().toISOString(),
+      { expirationTtl }
+    )));
+  }
+
+  console.log(`[Alerts] Sent ${fresh.length} findings for ${address} to ${urls.length} webhooks`);
+  return fresh;
+}
@@ -0,0 +1,175 @@
+/**
+ * 批量对比服务
+ * 对一组地址以有限并发逐个对比两个数据源，生成每个地址的摘要和整体报告，
+ * 用于 OneKey 每次发版后对固定钱包集合做回归
+ */
+import type {
+  BatchCompareRequest,
+  BatchCompareResult,
+  BatchItemResult,
+  BatchProtocolDiscrepancy,
+  BatchAddressEntry,
+  DataSourceCompareResult,
+  Env
+} from '../types';
+import { aggregateByProtocol, isWithinThresholds, resolveThresholds } from './compare';
+import { runSourceComparison } from './comparison';
+import { getProvider } from '../providers';
+import { mapWithConcurrency } from '../utils/concurrency';
+
+// 报告中列出的差异最大的协议数
+const TOP_PROTOCOL_LIMIT = 10;
+
+/**
+ * 单个地址的对比结果（含完整对比数据，供异步任务保存为快照）
+ */
+export interface BatchEntryOutcome {
+  item: BatchItemResult;
+  result?: DataSourceCompareResult;
+}
+
+/**
+ * 对比单个地址，失败时返回错误信息而不是抛出
+ */
+export async function compareBatchEntry(
+  env: Env,
+  entry: BatchAddressEntry,
+  request: BatchCompareRequest
+): Promise<BatchEntryOutcome> {
+  const startedAt = Date.now();
+  const providerA = getProvider(request.a);
+  const providerB = getProvider(request.b);
+
+  if (!providerA || !providerB) {
+    return {
+      item: {
+        address: entry.address,
+        label: entry.label,
+        success: false,
+        error: `Unknown provider: ${providerA ? request.b : request.a}`,
+        durationMs: 0,
+      },
+    };
+  }
+
+  try {
+    const result = await runSourceComparison(env, entry.address, providerA, providerB, {
+      fetchOptions: request.fetchOptions,
+      compareOptions: request.compareOptions,
+      fresh: request.fresh,
+    });
+
+    return {
+      item: {
+        address: entry.address,
+        label: entry.label,
+        success: true,
+        withinThreshold: isWithinThresholds(result.summary),
+        summary: result.summary,
+        totalA: result.addressA.totalValueUSD,
+        totalB: result.addressB.totalValueUSD,
+        protocols: aggregateByProtocol(result),
+        durationMs: Date.now() - startedAt,
+      },
+      result,
+    };
+  } catch (error: any) {
+    console.error(`[Batch] Compare failed for ${entry.address}:`, error);
+    return {
+      item: {
+        address: entry.address,
+        label: entry.label,
+        success: false,
+        error: error.message || 'Failed to compare data sources',
+        durationMs: Date.now() - startedAt,
+      },
+    };
+  }
+}
+
+/**
+ * 汇总各地址的协议差异，按差异绝对值之和倒序
+ */
+function summarizeProtocols(results: BatchItemResult[]): BatchProtocolDiscrepancy[] {
+  const totals = new Map<string, BatchProtocolDiscrepancy>();
+
+  for (const item of results) {
+    for (const aggregate of item.protocols || []) {
+      if (aggregate.diff === 0) continue;
+
+      const key = `${aggregate.protocolId}-${aggregate.chain}`;
+      if (!totals.has(key)) {
+        totals.set(key, {
+          protocolId: aggregate.protocolId,
+          protocol: aggregate.protocol,
+          chain: aggregate.chain,
+          totalAbsDiffUSD: 0,
+          walletCount: 0,
+        });
+      }
+
+      const total = totals.get(key)!;
+      total.totalAbsDiffUSD += Math.abs(aggregate.diff);
+      total.walletCount++;
+    }
+  }
+
+  return Array.from(totals.values())
+    .sort((a, b) => b.totalAbsDiffUSD - a.totalAbsDiffUSD)
+    .slice(0, TOP_PROTOCOL_LIMIT);
+}
+
+/**
+ * 根据各地址结果生成批量对比报告
+ */
+export function buildBatchResult(
+  request: BatchCompareRequest,
+  results: BatchItemResult[],
+  durationMs: number
+): BatchCompareResult {
+  const succeeded = results.filter(r => r.success);
+  const failures = results
+    .filter(r => !r.success)
+    .map(r => ({ address: r.address, label: r.label, error: r.error || 'Unknown error' }));
+
+  return {
+    report: {
+      providers: { a: request.a, b: request.b },
+      thresholds: resolveThresholds(request.compareOptions?.thresholds),
+      total: results.length,
+      succeeded: succeeded.length,
+      failed: failures.length,
+      withinThreshold: succeeded.filter(r => r.withinThreshold).length,
+      outsideThreshold: succeeded.filter(r => !r.withinThreshold).length,
+      topProtocols: summarizeProtocols(results),
+      failures,
+      durationMs,
+    },
+    results,
+  };
+}
+
+/**
+ * 批量对比一组地址
+ * @param onResult 每个地址对比成功后的回调（如保存快照）
+ */
+export async function runBatchComparison(
+  env: Env,
+  request: BatchCompareRequest,
+  onResult?: (result: DataSourceCompareResult, entry: BatchAddressEntry) => void
+): Promise<BatchCompareResult> {
+  const startedAt = Date.now();
+  console.log(`[Batch] Comparing ${request.entries.length} addresses (${request.a} vs ${request.b}, concurrency ${request.concurrency})`);
+
+  const results = await mapWithConcurrency(
+    request.entries,
+    request.concurrency,
+    async entry => {
+      const outcome = await compareBatchEntry(env, entry, request);
+      if (outcome.result) onResult?.(outcome.result, entry);
+      return outcome.item;
+    }
+  );
+
+  return buildBatchResult(request, results, Date.now() - startedAt);
+}
@@ -0,0 +1,205 @@
+/**
+ * 数据源结果缓存（Workers KV，与对比快照共用 COMPARE_KV）
+ * 按 数据源 + 地址 + 获取选项 缓存归一化后的 AddressDefiData，减少前端刷新对 Zerion 配额的消耗；
+ * 超时或有网络失败的部分结果不缓存。
+ * 缓存未命中时，同一 isolate 内相同 key 且时间预算相同的并发请求共享一次上游拉取（in-flight 合并），
+ * 共享的拉取失败、返回部分结果或在等待者的截止时间前没有结束时，等待者自己拉取
+ *
+ * KV key:
+ *   cache:defi:<provider>:<address>:<选项>    AddressDefiData，按 TTL 过期
+ */
+import type { AddressDefiData, Env, PortfolioProvider, ProviderFetchOptions } from '../types';
+import { persistUnmappedProtocols } from './unmapped';
+import { DEFAULT_BUDGET_MS } from '../utils/http';
+
+const CACHE_PREFIX = 'cache:defi:';
+
+export const DEFAULT_CACHE_TTL_SECONDS = 300;
+
+// KV expirationTtl 最小 60 秒
+const MIN_CACHE_TTL_SECONDS = 60;
+
+/**
+ * 一次上游拉取的结果
+ */
+interface LoadedDefiData {
+  data: AddressDefiData;
+  stored: boolean;
+}
+
+/**
+ * 正在进行的上游拉取（按合并 key），拉取结束后移除
+ */
+const inflight = new Map<string, Promise<LoadedDefiData>>();
+
+/**
+ * 读取缓存时间，0 表示关闭缓存
+ */
+export function resolveCacheTtl(env: Env): number {
+  if (env.CACHE_TTL_SECONDS === undefined || env.CACHE_TTL_SECONDS === '') return DEFAULT_CACHE_TTL_SECONDS;
+  const ttl = Number(env.CACHE_TTL_SECONDS);
+  if (!Number.isFinite(ttl) || ttl < 0) return DEFAULT_CACHE_TTL_SECONDS;
+  return ttl === 0 ? 0 : Math.max(Math.round(ttl), MIN_CACHE_TTL_SECONDS);
+}
+
+/**
+ * 缓存 key（只包含影响结果的选项，不包含时间预算）
+ */
+function cacheKey(providerId: string, address: string, options: ProviderFetchOptions): string {
+  const parts = [
+    options.chains && options.chains.length > 0 ? [...options.chains].sort().join(',') : '*',
+    options.onlyComplex === false ? 'all' : 'complex',
+    options.pageSize || '-',
+    options.maxPages || '-',
+  ];
+  return `${CACHE_PREFIX}${providerId}:${address.toLowerCase()}:${parts.join(':')}`;
+}
+
+/**
+ * 合并 key：缓存 key 加上请求的时间预算，预算不同的请求不共享拉取
+ */
+function inflightKey(key: string, options: ProviderFetchOptions): string {
+  return `${key}:${options.deadlineMs ?? '-'}`;
+}
+
+/**
+ * 判断结果是否完整（超时、网络失败的部分结果不缓存）
+ */
+function isCacheable(data: AddressDefiData): boolean {
+  if (data.fetchMeta?.timedOut) return false;
+  return Object.values(data.networkStatus || {}).every(s => s.status === 'ok' || s.status === 'empty');
+}
+
+/**
+ * 拉取数据源并写入缓存，同时把归一化时新发现的未映射协议写入 KV
+ */
+async function loadDefiData(
+  env: Env,
+  provider: PortfolioProvider,
+  address: string,
+  options: ProviderFetchOptions,
+  key: string,
+  ttlSeconds: number
+): Promise<LoadedDefiData> {
+  const data = await provider.getAddressDefiData(address, env, options);
+  await persistUnmappedProtocols(env.COMPARE_KV);
+  const stored = ttlSeconds > 0 && isCacheable(data);
+
+  if (stored) {
+    try {
+      await env.COMPARE_KV.put(key, JSON.stringify(data), { expirationTtl: ttlSeconds });
+    } catch (error) {
+      console.error(`[Cache] Failed to write ${key}:`, error);
+    }
+  }
+
+  return { data, stored };
+}
+
+/**
+ * 等待正在进行的相同拉取，最多等到自己的截止时间
+ * 共享的拉取失败、返回部分结果，或发起拉取的请求被取消导致一直没有结束时返回 undefined
+ */
+async function joinInflight(pending: Promise<LoadedDefiData>, deadline: number): Promise<LoadedDefiData | undefined> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<undefined>(resolve => {
+    timer = setTimeout(() => resolve(undefined), Math.max(deadline - Date.now(), 0));
+  });
+
+  try {
+    const shared = await Promise.race([pending.catch(() => undefined), expired]);
+    return shared && isCacheable(shared.data) ? shared : undefined;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * 获取数据源数据，优先读取缓存；未命中时与正在进行的相同拉取合并
+ * 只有完整的共享结果才会交给等待者，否则等待者按自己的时间预算重新拉取
+ * @param fresh 为 true 时跳过缓存读取（结果仍会写入缓存）
+ */
+export async function fetchDefiData(
+  env: Env,
+  provider: PortfolioProvider,
+  address: string,
+  options: ProviderFetchOptions = {},
+  fresh = false
+): Promise<AddressDefiData> {
+  const ttlSeconds = resolveCacheTtl(env);
+  const key = cacheKey(provider.id, address, options);
+
+  if (!fresh && ttlSeconds > 0) {
+    try {
+      const cached = await env.COMPARE_KV.get<AddressDefiData>(key, 'json');
+      if (cached) {
+        const ageSeconds = Math.max(Math.floor((Date.now() - Date.parse(cached.lastUpdated)) / 1000), 0);
+        console.log(`[Cache] Hit ${provider.name} ${address} (age ${ageSeconds}s)`);
+        return {
+          ...cached,
+          fetchMeta: {
+            durationMs: 0,
+            ...cached.fetchMeta,
+            cache: { hit: true, stored: true, cachedAt: cached.lastUpdated, ageSeconds, ttlSeconds },
+          },
+        };
+      }
+    } catch (error) {
+      console.error(`[Cache] Failed to read ${key}:`, error);
+    }
+  }
+
+  const sharedKey = inflightKey(key, options);
+  const pending = inflight.get(sharedKey);
+  let loaded: LoadedDefiData | undefined;
+
+  if (pending) {
+    console.log(`[Cache] Joining in-flight ${provider.name} fetch for ${address}`);
+    loaded = await joinInflight(pending, options.deadline ?? Date.now() + DEFAULT_BUDGET_MS);
+    if (!loaded) {
+      console.log(`[Cache] In-flight ${provider.name} fetch for ${address} unusable, fetching separately`);
+    }
+  }
+
+  const coalesced = Boolean(loaded);
+  if (!loaded) {
+    const own = loadDefiData(env, provider, address, options, key, ttlSeconds);
+    if (!pending) {
+      inflight.set(sharedKey, own);
+      own.catch(() => undefined).finally(() => inflight.delete(sharedKey));
+    }
+    loaded = await own;
+  }
+
+  const { data, stored } = loaded;
+
+  return {
+    ...data,
+    fetchMeta: {
+      durationMs: 0,
+      ...data.fetchMeta,
+      coalesced,
+      cache: ttlSeconds > 0
+        ? { hit: false, stored, cachedAt: stored ? data.lastUpdated : undefined, ageSeconds: 0, ttlSeconds }
+        : undefined,
+    },
+  };
+}
+
+/**
+ * 根据数据源结果的缓存状态生成响应头
+ * Age 取最旧的数据，max-age 取最早过期的数据；有未缓存的结果时 no-store
+ */
+export function buildCacheHeaders(datas: AddressDefiData[]): Record<string, string> {
+  const caches = datas.map(d => d.fetchMeta?.cache);
+  if (caches.length === 0 || caches.some(cache => !cache?.stored)) {
+    return { 'Cache-Control': 'no-store' };
+  }
+
+  const age = Math.max(...caches.map(cache => cache!.ageSeconds));
+  const maxAge = Math.max(Math.min(...caches.map(cache => cache!.ttlSeconds - cache!.ageSeconds)), 0);
+  return {
+    'Cache-Control': `private, max-age=${maxAge}`,
+    'Age': String(age),
+  };
+}
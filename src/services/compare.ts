@@ -3,9 +3,15 @@
  * 参考: Zerion vs OneKey API 字段比對分析
  * 
  * 对比逻辑：
- * - 使用 protocol + chain + token symbol 作为匹配 key
- * - 计算 netWorth = totalValue + totalReward - totalDebt
- * - 差异超过 1% 认为有变化
+ * - 同一 protocol + chain 下按协议、链、类型、token 重合度、价值接近程度打分，全局最优一对一配对
+ * - 配对结果标注层级：chain + token 合约地址 > protocol + chain + token symbol > 主要 token > 仅协议
+ * - 计算 netWorth = totalValue + totalReward - totalDebt（负债按负值计入）
+ * - 资产 / 负债 / 奖励 / 净值分别给出差异
+ * - 已匹配的 position 给出 token 级差异及根因（价格 / 数量 / 缺失 / 多出）
+ * - 建立两边 token 价格对照表，并将总差异拆分为价格影响与数量影响
+ * - 支持三个及以上数据源的对齐，以中位数为共识值找出离群数据源
+ * - 差异阈值可按请求配置（相对 %、绝对 USD、最小仓位价值、粉尘过滤），默认差异超过 1% 认为有变化
+ * - 数据源在某条链上请求失败时，该链上的差异标记为 unreliable 或不参与对比
  */
 import type { 
   AddressDefiData, 
@@ -13,8 +19,78 @@ import type {
   PositionDiff,
   CompareSummary,
   Position,
-  PositionType
+  PositionType,
+  CompareOptions,
+  MatchMode,
+  MatchTier,
+  TokenBalance,
+  CompareThresholds,
+  DiffTypeCounts,
+  ProtocolAggregate,
+  ChainAggregate,
+  AggregateSort,
+  TokenRole,
+  TokenDiff,
+  TokenDiffStatus,
+  DiffRootCause,
+  TokenPriceComparison,
+  DiffAttribution,
+  PriceAnalysis,
+  AlignedPosition,
+  AlignedSourceValue,
+  MultiSourceCompareResult,
+  SourceOutlierStats,
+  FailedChain
 } from '../types';
+import { diffBreakdowns, signedTokenValue, sumBreakdowns } from '../utils/position';
+import { solveAssignment } from '../utils/assignment';
+import { isNativeTokenSymbol } from '../registry/chains';
+
+/**
+ * 计算百分比差异，以 A 的绝对值为基准（净值可能为负）
+ */
+function percentDiff(valueA: number, valueB: number): number {
+  const base = Math.abs(valueA);
+  if (base > 0) {
+    return ((valueB - valueA) / base) * 100;
+  }
+  return valueB !== 0 ? 100 : 0;
+}
+
+// 表示原生代币的地址哨兵值
+const NATIVE_TOKEN_ADDRESSES = new Set([
+  'native',
+  '0x0000000000000000000000000000000000000000',
+  '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
+]);
+
+/**
+ * 标准化 token 合约地址（统一小写，原生代币统一为 native）
+ * 地址缺失时若 symbol 为链的原生代币也视为 native，否则返回 undefined
+ */
+function normalizeTokenAddress(balance: TokenBalance, chain: string): string | undefined {
+  const normalized = (balance.token.address || '').trim().toLowerCase();
+  if (!normalized) {
+    return isNativeTokenSymbol(chain, balance.token.symbol) ? 'native' : undefined;
+  }
+  return NATIVE_TOKEN_ADDRESSES.has(normalized) ? 'native' : normalized;
+}
+
+/**
+ * 生成按合约地址匹配的 key（protocol + chain + token 地址）
+ * 任一 token 缺少地址时返回 undefined，交给 symbol 匹配兜底
+ */
+function getAddressMatchKey(position: Position): string | undefined {
+  const addresses: string[] = [];
+  for (const t of position.tokens) {
+    const address = normalizeTokenAddress(t, position.protocol.chain);
+    if (!address) return undefined;
+    addresses.push(address);
+  }
+
+  const tokenAddresses = Array.from(new Set(addresses)).sort().join('+');
+  return `${position.protocol.id}-${position.protocol.chain}-${tokenAddresses}`.toLowerCase();
+}
 
 /**
  * 生成 position 的匹配 key
@@ -45,78 +121,403 @@ function getProtocolKey(position: Position): string {
   return `${position.protocol.id}-${position.protocol.chain}`.toLowerCase();
 }
 
+/**
+ * 各匹配层级及其 key 生成函数，按优先级排列
+ * 用于标注一对已配对 position 属于哪个层级
+ */
+const MATCH_TIERS: Array<{ tier: MatchTier; getKey: (position: Position) => string | undefined }> = [
+  { tier: 'address', getKey: getAddressMatchKey },
+  { tier: 'exact_symbol', getKey: getPositionMatchKey },
+  { tier: 'loose', getKey: getLooseMatchKey },
+  { tier: 'protocol', getKey: getProtocolKey },
+];
+
+// 匹配得分各维度权重（总和为 1）
+const SCORE_WEIGHTS = {
+  protocol: 0.2,
+  chain: 0.2,
+  type: 0.1,
+  tokens: 0.3,
+  value: 0.2,
+};
+
+// 接受配对的最低得分：protocol + chain（0.4）之外还需要类型 / token / 价值上有足够的相似度
+const MIN_MATCH_SCORE = 0.55;
+
+/**
+ * 配对结果
+ */
+export interface PositionMatch {
+  position: Position;
+  tier: MatchTier;
+  score: number;
+}
+
+/**
+ * 计算两个集合的 Jaccard 相似度
+ */
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let intersection = 0;
+  a.forEach(item => {
+    if (b.has(item)) intersection++;
+  });
+  return intersection / (a.size + b.size - intersection);
+}
+
+/**
+ * 计算 token 重合度
+ * 地址模式下两边都有合约地址的 token 只按地址比较（同 symbol 不同合约不算重合，如 USDC.e 与 USDC），
+ * 任一边缺少地址的 token 才按 symbol 兜底
+ */
+function tokenOverlap(posA: Position, posB: Position, matchMode: MatchMode): number {
+  const symbols = (p: Position) => new Set(p.tokens.map(t => t.token.symbol.toLowerCase()));
+  if (matchMode === 'symbol') return jaccard(symbols(posA), symbols(posB));
+
+  // 缺少地址的 token 的 symbol，对方同 symbol 的 token 也按 symbol 比较
+  const symbolsWithoutAddress = (p: Position) => new Set(
+    p.tokens
+      .filter(t => !normalizeTokenAddress(t, p.protocol.chain))
+      .map(t => t.token.symbol.toLowerCase())
+  );
+  const fallbackA = symbolsWithoutAddress(posA);
+  const fallbackB = symbolsWithoutAddress(posB);
+
+  const tokenKeys = (p: Position, otherFallback: Set<string>) => new Set(p.tokens.map(t => {
+    const symbol = t.token.symbol.toLowerCase();
+    const address = normalizeTokenAddress(t, p.protocol.chain);
+    return address && !otherFallback.has(symbol) ? `address:${address}` : `symbol:${symbol}`;
+  }));
+
+  return jaccard(tokenKeys(posA, fallbackB), tokenKeys(posB, fallbackA));
+}
+
+/**
+ * 计算价值接近程度（0 ~ 1）
+ */
+function valueProximity(valueA: number, valueB: number): number {
+  const scale = Math.max(Math.abs(valueA), Math.abs(valueB));
+  if (scale === 0) return 1;
+  return Math.max(0, 1 - Math.abs(valueA - valueB) / scale);
+}
+
+/**
+ * 计算一对 position 的匹配得分
+ * protocol 与 chain 不同、没有任何共同 token 或得分低于 MIN_MATCH_SCORE 的 position 不允许配对，返回 null
+ * （未配对的 position 分别计为 removed / added）
+ */
+function scorePair(posA: Position, posB: Position, matchMode: MatchMode): number | null {
+  if (getProtocolKey(posA) !== getProtocolKey(posB)) return null;
+
+  const overlap = tokenOverlap(posA, posB, matchMode);
+  if (overlap === 0) return null;
+
+  const score = SCORE_WEIGHTS.protocol
+    + SCORE_WEIGHTS.chain
+    + SCORE_WEIGHTS.type * (posA.type === posB.type ? 1 : 0)
+    + SCORE_WEIGHTS.tokens * overlap
+    + SCORE_WEIGHTS.value * valueProximity(posA.totalValueUSD, posB.totalValueUSD);
+
+  if (score < MIN_MATCH_SCORE) return null;
+  return Math.round(score * 1000) / 1000;
+}
+
+/**
+ * 判定一对已配对 position 的匹配层级
+ */
+function resolveMatchTier(posA: Position, posB: Position, matchMode: MatchMode): MatchTier {
+  for (const { tier, getKey } of MATCH_TIERS) {
+    if (tier === 'address' && matchMode === 'symbol') continue;
+    const keyA = getKey(posA);
+    if (keyA && keyA === getKey(posB)) return tier;
+  }
+  return 'protocol';
+}
+
+/**
+ * 全局最优匹配 A / B 的 positions
+ * 对同一 protocol + chain 下的所有候选对打分，用匈牙利算法求总得分最大的一对一配对；
+ * 重复 key 的 position 各自独立参与匹配，没有共同 token 或得分过低的候选对不会配对
+ */
+export function matchPositions(
+  positionsA: Position[],
+  positionsB: Position[],
+  matchMode: MatchMode
+): Map<Position, PositionMatch> {
+  const matches = new Map<Position, PositionMatch>();
+
+  // 只有同一 protocol + chain 的 position 才可能配对，按此分组分别求解
+  const groups = new Map<string, { a: Position[]; b: Position[] }>();
+  const getGroup = (key: string) => {
+    if (!groups.has(key)) {
+      groups.set(key, { a: [], b: [] });
+    }
+    return groups.get(key)!;
+  };
+  positionsA.forEach(p => getGroup(getProtocolKey(p)).a.push(p));
+  positionsB.forEach(p => getGroup(getProtocolKey(p)).b.push(p));
+
+  for (const { a, b } of groups.values()) {
+    if (a.length === 0 || b.length === 0) continue;
+
+    const scores = a.map(posA => b.map(posB => scorePair(posA, posB, matchMode)));
+    for (const [i, j] of solveAssignment(scores)) {
+      matches.set(a[i], {
+        position: b[j],
+        tier: resolveMatchTier(a[i], b[j], matchMode),
+        score: scores[i][j]!,
+      });
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * 默认差异阈值
+ */
+export const DEFAULT_THRESHOLDS: CompareThresholds = {
+  relativePercent: 1,
+  absoluteUSD: null,
+  minPositionValueUSD: 0,
+  dustUSD: 0,
+  priceDiffPercent: 1,
+};
+
+/**
+ * 合并请求传入的阈值与默认值
+ */
+export function resolveThresholds(thresholds: Partial<CompareThresholds> = {}): CompareThresholds {
+  return {
+    relativePercent: thresholds.relativePercent ?? DEFAULT_THRESHOLDS.relativePercent,
+    absoluteUSD: thresholds.absoluteUSD ?? DEFAULT_THRESHOLDS.absoluteUSD,
+    minPositionValueUSD: thresholds.minPositionValueUSD ?? DEFAULT_THRESHOLDS.minPositionValueUSD,
+    dustUSD: thresholds.dustUSD ?? DEFAULT_THRESHOLDS.dustUSD,
+    priceDiffPercent: thresholds.priceDiffPercent ?? DEFAULT_THRESHOLDS.priceDiffPercent,
+  };
+}
+
+/**
+ * 判定一对已匹配 position 的差异是否算作 changed
+ * - 差异金额低于 dustUSD 时始终视为 unchanged，避免粉尘仓位来回跳动
+ * - 相对差异超过 relativePercent，或绝对差异超过 absoluteUSD 时视为 changed
+ */
+function isChangedDiff(valueDiffUSD: number, valueDiffPercent: number, thresholds: CompareThresholds): boolean {
+  const absDiff = Math.abs(valueDiffUSD);
+  if (absDiff < thresholds.dustUSD) return false;
+  if (Math.abs(valueDiffPercent) > thresholds.relativePercent) return true;
+  return thresholds.absoluteUSD !== null && absDiff > thresholds.absoluteUSD;
+}
+
+/**
+ * token 角色分组：supply 与 lp 在不同数据源间可能互换，按资产统一配对
+ */
+function roleBucket(role: TokenRole): string {
+  return role === 'lp' ? 'supply' : role;
+}
+
+/**
+ * 判定单个已配对 token 的差异根因
+ * 价格与数量差异都在阈值内时为 none，否则取对价值差异贡献更大的一方：
+ * - 价格影响 = 数量B × (价格B - 价格A)
+ * - 数量影响 = 价格A × (数量B - 数量A)
+ */
+function classifyTokenDiff(
+  tokenA: TokenBalance,
+  tokenB: TokenBalance,
+  thresholds: CompareThresholds
+): DiffRootCause {
+  const valueDiff = signedTokenValue(tokenB) - signedTokenValue(tokenA);
+  const valueDiffPercent = percentDiff(signedTokenValue(tokenA), signedTokenValue(tokenB));
+  if (!isChangedDiff(valueDiff, valueDiffPercent, thresholds)) return 'none';
+
+  const priceA = tokenA.token.price;
+  const priceB = tokenB.token.price;
+  if (priceA === undefined || priceB === undefined) return 'quantity_mismatch';
+
+  const priceEffect = Math.abs(tokenB.balanceFormatted * (priceB - priceA));
+  const quantityEffect = Math.abs(priceA * (tokenB.balanceFormatted - tokenA.balanceFormatted));
+  return priceEffect > quantityEffect ? 'price_mismatch' : 'quantity_mismatch';
+}
+
+/**
+ * 生成单个 token 的差异记录
+ */
+function buildTokenDiff(
+  tokenA: TokenBalance | undefined,
+  tokenB: TokenBalance | undefined,
+  thresholds: CompareThresholds
+): TokenDiff {
+  const base = (tokenA || tokenB)!;
+  const valueA = tokenA ? signedTokenValue(tokenA) : 0;
+  const valueB = tokenB ? signedTokenValue(tokenB) : 0;
+  const priceA = tokenA?.token.price;
+  const priceB = tokenB?.token.price;
+  const hasBothPrices = priceA !== undefined && priceB !== undefined;
+
+  let status: TokenDiffStatus = 'matched';
+  let rootCause: DiffRootCause;
+  if (!tokenB) {
+    status = 'missing';
+    rootCause = 'missing_token';
+  } else if (!tokenA) {
+    status = 'extra';
+    rootCause = 'extra_token';
+  } else {
+    rootCause = classifyTokenDiff(tokenA, tokenB, thresholds);
+  }
+
+  return {
+    symbol: base.token.symbol,
+    address: base.token.address,
+    role: base.role,
+    status,
+    balanceA: tokenA?.balanceFormatted,
+    balanceB: tokenB?.balanceFormatted,
+    balanceDiff: (tokenB?.balanceFormatted || 0) - (tokenA?.balanceFormatted || 0),
+    priceA,
+    priceB,
+    priceDiff: hasBothPrices ? priceB - priceA : undefined,
+    priceDiffPercent: hasBothPrices ? percentDiff(priceA, priceB) : undefined,
+    valueA,
+    valueB,
+    valueDiffUSD: valueB - valueA,
+    rootCause,
+  };
+}
+
+/**
+ * 对已匹配的两个 position 做 token 级对比
+ * 先按 角色 + 合约地址 配对，剩余的再按 角色 + symbol 配对
+ */
+function diffTokens(
+  posA: Position,
+  posB: Position,
+  thresholds: CompareThresholds
+): { tokenDiffs: TokenDiff[]; rootCause: DiffRootCause } {
+  const pairs: Array<[TokenBalance | undefined, TokenBalance | undefined]> = [];
+  const remainingA = [...posA.tokens];
+  const remainingB = [...posB.tokens];
+
+  const keyFns: Array<(t: TokenBalance, chain: string) => string | undefined> = [
+    (t, chain) => {
+      const address = normalizeTokenAddress(t, chain);
+      return address ? `${roleBucket(t.role)}:${address}` : undefined;
+    },
+    (t) => `${roleBucket(t.role)}:${t.token.symbol.toLowerCase()}`,
+  ];
+
+  for (const getKey of keyFns) {
+    for (let i = 0; i < remainingA.length; i++) {
+      const keyA = getKey(remainingA[i], posA.protocol.chain);
+      if (!keyA) continue;
+      const j = remainingB.findIndex(t => getKey(t, posB.protocol.chain) === keyA);
+      if (j === -1) continue;
+
+      pairs.push([remainingA[i], remainingB[j]]);
+      remainingA.splice(i, 1);
+      remainingB.splice(j, 1);
+      i--;
+    }
+  }
+
+  remainingA.forEach(t => pairs.push([t, undefined]));
+  remainingB.forEach(t => pairs.push([undefined, t]));
+
+  const tokenDiffs = pairs
+    .map(([tokenA, tokenB]) => buildTokenDiff(tokenA, tokenB, thresholds))
+    .sort((a, b) => Math.abs(b.valueDiffUSD) - Math.abs(a.valueDiffUSD));
+
+  // position 的根因取差异金额最大的、有差异的 token
+  const primary = tokenDiffs.find(t => t.rootCause !== 'none');
+
+  return { tokenDiffs, rootCause: primary?.rootCause || 'none' };
+}
+
+/**
+ * 判断对比结果的总差异是否在阈值内
+ */
+export function isWithinThresholds(summary: CompareSummary): boolean {
+  return !isChangedDiff(summary.totalValueDiffUSD, summary.totalValueDiffPercent, summary.thresholds);
+}
+
+/**
+ * 判断 position 是否低于参与对比的最小价值
+ */
+function isBelowMinValue(positions: Array<Position | undefined>, thresholds: CompareThresholds): boolean {
+  return positions.every(p => !p || Math.abs(p.totalValueUSD) < thresholds.minPositionValueUSD);
+}
+
+/**
+ * 收集两个数据源请求失败的链（根据 networkStatus，ok / empty 以外的状态视为失败）
+ * 每个失败的网络各占一项，同一条链上只要有一个网络失败，该链即视为失败
+ */
+function collectFailedChains(sourceAData: AddressDefiData, sourceBData: AddressDefiData): FailedChain[] {
+  const failed: FailedChain[] = [];
+  for (const data of [sourceAData, sourceBData]) {
+    for (const status of Object.values(data.networkStatus || {})) {
+      if (status.status === 'ok' || status.status === 'empty') continue;
+      failed.push({
+        chain: status.chain,
+        networkId: status.networkId,
+        source: data.source,
+        status: status.status,
+        message: status.message,
+      });
+    }
+  }
+  return failed;
+}
+
+/**
+ * 去掉指定链上的 position，并重新计算总值
+ */
+function excludeChains(data: AddressDefiData, chains: Set<string>): AddressDefiData {
+  const positions = data.positions.filter(p => !chains.has(p.protocol.chain));
+  const breakdown = sumBreakdowns(positions);
+  return { ...data, positions, breakdown, totalValueUSD: breakdown.netWorthUSD };
+}
+
 /**
  * 对比两个数据源的数据
  */
 export function compareDataSources(
-  sourceAData: AddressDefiData,
-  sourceBData: AddressDefiData
+  rawDataA: AddressDefiData,
+  rawDataB: AddressDefiData,
+  options: CompareOptions = {}
 ): DataSourceCompareResult {
   const positionDiffs: PositionDiff[] = [];
+  const matchMode = options.matchMode || 'address';
+  const thresholds = resolveThresholds(options.thresholds);
 
-  // 创建多层级匹配映射
-  const sourceAByExactKey = new Map<string, Position>();
-  const sourceAByLooseKey = new Map<string, Position[]>();
-  const sourceBByExactKey = new Map<string, Position>();
-  const sourceBByLooseKey = new Map<string, Position[]>();
+  // 数据源请求失败的链：exclude 模式下两边该链的 position 都不参与对比
+  const failedChains = collectFailedChains(rawDataA, rawDataB);
+  const failedChainSet = new Set(failedChains.map(f => f.chain));
+  const excludeFailed = options.failedChainPolicy === 'exclude' && failedChainSet.size > 0;
+  const sourceAData = excludeFailed ? excludeChains(rawDataA, failedChainSet) : rawDataA;
+  const sourceBData = excludeFailed ? excludeChains(rawDataB, failedChainSet) : rawDataB;
+  const excludedPositions = (rawDataA.positions.length - sourceAData.positions.length)
+    + (rawDataB.positions.length - sourceBData.positions.length);
 
-  // 建立 A 的索引
-  sourceAData.positions.forEach(p => {
-    const exactKey = getPositionMatchKey(p);
-    const looseKey = getLooseMatchKey(p);
-    
-    sourceAByExactKey.set(exactKey, p);
-    
-    if (!sourceAByLooseKey.has(looseKey)) {
-      sourceAByLooseKey.set(looseKey, []);
-    }
-    sourceAByLooseKey.get(looseKey)!.push(p);
-  });
+  const matches = matchPositions(sourceAData.positions, sourceBData.positions, matchMode);
+  const matchedB = new Set<Position>();
 
-  // 建立 B 的索引
-  sourceBData.positions.forEach(p => {
-    const exactKey = getPositionMatchKey(p);
-    const looseKey = getLooseMatchKey(p);
-    
-    sourceBByExactKey.set(exactKey, p);
-    
-    if (!sourceBByLooseKey.has(looseKey)) {
-      sourceBByLooseKey.set(looseKey, []);
-    }
-    sourceBByLooseKey.get(looseKey)!.push(p);
-  });
-
-  const matchedBKeys = new Set<string>();
   let positionsOnlyInA = 0;
   let positionsOnlyInB = 0;
   let commonPositions = 0;
   let changedPositions = 0;
+  let ignoredPositions = 0;
 
   // 遍历 A 的 positions
   for (const posA of sourceAData.positions) {
-    const exactKey = getPositionMatchKey(posA);
-    const looseKey = getLooseMatchKey(posA);
-    
-    let posB: Position | undefined;
-    let matchedKey: string | undefined;
-
-    // 首先尝试精确匹配
-    if (sourceBByExactKey.has(exactKey)) {
-      posB = sourceBByExactKey.get(exactKey);
-      matchedKey = exactKey;
-    } 
-    // 其次尝试宽松匹配
-    else if (sourceBByLooseKey.has(looseKey)) {
-      const candidates = sourceBByLooseKey.get(looseKey)!;
-      // 找到未被匹配且值最接近的
-      for (const candidate of candidates) {
-        const candidateKey = getPositionMatchKey(candidate);
-        if (!matchedBKeys.has(candidateKey)) {
-          posB = candidate;
-          matchedKey = candidateKey;
-          break;
-        }
-      }
+    const match = matches.get(posA);
+    const posB = match?.position;
+
+    // 两边价值都低于最小值的 position 不参与对比
+    if (isBelowMinValue([posA, posB], thresholds)) {
+      ignoredPositions++;
+      if (posB) matchedB.add(posB);
+      continue;
     }
 
     if (!posB) {
@@ -130,19 +531,20 @@ export function compareDataSources(
         positionA: posA,
         valueDiffUSD: -posA.totalValueUSD,
         valueDiffPercent: -100,
+        breakdownDiff: diffBreakdowns(posA.valueBreakdown, undefined),
       });
     } else {
       // 标记 B 已被匹配
-      matchedBKeys.add(matchedKey!);
+      matchedB.add(posB);
 
       // 两边都存在，比较值差异
       const valueDiff = posB.totalValueUSD - posA.totalValueUSD;
-      const percentDiff = posA.totalValueUSD > 0
-        ? (valueDiff / posA.totalValueUSD) * 100
-        : (posB.totalValueUSD > 0 ? 100 : 0);
+      const valuePercentDiff = percentDiff(posA.totalValueUSD, posB.totalValueUSD);
+      const breakdownDiff = diffBreakdowns(posA.valueBreakdown, posB.valueBreakdown);
+      const { tokenDiffs, rootCause } = diffTokens(posA, posB, thresholds);
 
-      if (Math.abs(percentDiff) > 1) {
-        // 差异超过 1% 认为有变化
+      if (isChangedDiff(valueDiff, valuePercentDiff, thresholds)) {
+        // 差异超过阈值认为有变化
         changedPositions++;
         positionDiffs.push({
           protocol: posA.protocol.name,
@@ -152,7 +554,12 @@ export function compareDataSources(
           positionA: posA,
           positionB: posB,
           valueDiffUSD: valueDiff,
-          valueDiffPercent: percentDiff,
+          valueDiffPercent: valuePercentDiff,
+          breakdownDiff,
+          matchTier: match.tier,
+          matchScore: match.score,
+          tokenDiffs,
+          rootCause,
         });
       } else {
         // 匹配且值相近
@@ -165,7 +572,12 @@ export function compareDataSources(
           positionA: posA,
           positionB: posB,
           valueDiffUSD: valueDiff,
-          valueDiffPercent: percentDiff,
+          valueDiffPercent: valuePercentDiff,
+          breakdownDiff,
+          matchTier: match.tier,
+          matchScore: match.score,
+          tokenDiffs,
+          rootCause,
         });
       }
     }
@@ -173,9 +585,11 @@ export function compareDataSources(
 
   // 检查只在 B 中的 positions
   for (const posB of sourceBData.positions) {
-    const exactKey = getPositionMatchKey(posB);
-    
-    if (!matchedBKeys.has(exactKey)) {
+    if (matchedB.has(posB)) continue;
+
+    if (isBelowMinValue([posB], thresholds)) {
+      ignoredPositions++;
+    } else {
       positionsOnlyInB++;
       positionDiffs.push({
         protocol: posB.protocol.name,
@@ -185,15 +599,22 @@ export function compareDataSources(
         positionB: posB,
         valueDiffUSD: posB.totalValueUSD,
         valueDiffPercent: 100,
+        breakdownDiff: diffBreakdowns(undefined, posB.valueBreakdown),
       });
     }
   }
 
+  // flag 模式下标记失败链上的差异
+  let unreliablePositions = 0;
+  for (const diff of positionDiffs) {
+    if (!failedChainSet.has(diff.chain)) continue;
+    diff.unreliable = true;
+    if (diff.diffType !== 'unchanged') unreliablePositions++;
+  }
+
   // 计算总值差异
   const totalValueDiffUSD = sourceBData.totalValueUSD - sourceAData.totalValueUSD;
-  const totalValueDiffPercent = sourceAData.totalValueUSD > 0
-    ? (totalValueDiffUSD / sourceAData.totalValueUSD) * 100
-    : (sourceBData.totalValueUSD > 0 ? 100 : 0);
+  const totalValueDiffPercent = percentDiff(sourceAData.totalValueUSD, sourceBData.totalValueUSD);
 
   const summary: CompareSummary = {
     totalValueDiffUSD,
@@ -202,6 +623,12 @@ export function compareDataSources(
     positionsOnlyInB,
     commonPositions,
     changedPositions,
+    ignoredPositions,
+    failedChains,
+    unreliablePositions,
+    excludedPositions,
+    breakdownDiff: diffBreakdowns(sourceAData.breakdown, sourceBData.breakdown),
+    thresholds,
   };
 
   // 按差异类型和金额排序
@@ -216,52 +643,346 @@ export function compareDataSources(
   });
 
   return {
-    addressA: sourceAData,
-    addressB: sourceBData,
+    addressA: rawDataA,
+    addressB: rawDataB,
     summary,
     positionDiffs,
+    priceAnalysis: analyzePrices(sourceAData, sourceBData, positionDiffs, totalValueDiffUSD, thresholds),
   };
 }
 
 /**
- * 按协议聚合对比
+ * 收集数据源中每个 token 的价格（chain + 合约地址，缺少地址时按 symbol）
+ * 同一 token 出现多次时取价值最大的那一条的价格
  */
-export function aggregateByProtocol(result: DataSourceCompareResult): Record<string, {
-  protocol: string;
-  chain: string;
-  totalA: number;
-  totalB: number;
-  diff: number;
-  diffPercent: number;
-}> {
-  const protocolTotals: Record<string, { protocol: string; chain: string; totalA: number; totalB: number }> = {};
+function collectTokenPrices(data: AddressDefiData): Map<string, { balance: TokenBalance; chain: string }> {
+  const prices = new Map<string, { balance: TokenBalance; chain: string }>();
+
+  for (const position of data.positions) {
+    const chain = position.protocol.chain;
+    for (const balance of position.tokens) {
+      if (balance.token.price === undefined || balance.token.symbol === 'UNKNOWN') continue;
+
+      const identity = normalizeTokenAddress(balance, chain) || `symbol:${balance.token.symbol.toLowerCase()}`;
+      const key = `${chain}:${identity}`;
+      const existing = prices.get(key);
+      if (!existing || balance.balanceUSD > existing.balance.balanceUSD) {
+        prices.set(key, { balance, chain });
+      }
+    }
+  }
+
+  return prices;
+}
+
+/**
+ * 将总差异拆分为价格影响、数量影响和未匹配 position 影响
+ * 对已匹配的 token：价格影响 = 数量B × (价格B - 价格A)，其余计入数量影响
+ */
+function attributeDiff(positionDiffs: PositionDiff[], totalValueDiffUSD: number): DiffAttribution {
+  let priceUSD = 0;
+  let quantityUSD = 0;
+  let unmatchedPositionsUSD = 0;
+
+  for (const diff of positionDiffs) {
+    if (!diff.tokenDiffs) {
+      unmatchedPositionsUSD += diff.valueDiffUSD || 0;
+      continue;
+    }
+
+    for (const tokenDiff of diff.tokenDiffs) {
+      const sign = tokenDiff.role === 'borrow' ? -1 : 1;
+      const priceEffect = tokenDiff.status === 'matched' && tokenDiff.priceDiff !== undefined
+        ? sign * (tokenDiff.balanceB || 0) * tokenDiff.priceDiff
+        : 0;
+      priceUSD += priceEffect;
+      quantityUSD += tokenDiff.valueDiffUSD - priceEffect;
+    }
+  }
+
+  return {
+    priceUSD,
+    quantityUSD,
+    unmatchedPositionsUSD,
+    otherUSD: totalValueDiffUSD - priceUSD - quantityUSD - unmatchedPositionsUSD,
+  };
+}
+
+/**
+ * 价格差异分析
+ * 对两个数据源中出现的每个 token 建立价格对照表，标记价格差异超过阈值的 token，
+ * 并估算总差异中有多少来自价格、多少来自数量
+ */
+export function analyzePrices(
+  sourceAData: AddressDefiData,
+  sourceBData: AddressDefiData,
+  positionDiffs: PositionDiff[],
+  totalValueDiffUSD: number,
+  thresholds: CompareThresholds
+): PriceAnalysis {
+  const pricesA = collectTokenPrices(sourceAData);
+  const pricesB = collectTokenPrices(sourceBData);
+  const keys = new Set([...pricesA.keys(), ...pricesB.keys()]);
+
+  const tokens: TokenPriceComparison[] = [];
+  for (const key of keys) {
+    const entryA = pricesA.get(key);
+    const entryB = pricesB.get(key);
+    const base = (entryA || entryB)!;
+    const priceA = entryA?.balance.token.price;
+    const priceB = entryB?.balance.token.price;
+    const hasBoth = priceA !== undefined && priceB !== undefined;
+    const priceDiffPercent = hasBoth ? percentDiff(priceA, priceB) : undefined;
+
+    tokens.push({
+      chain: base.chain,
+      symbol: base.balance.token.symbol,
+      address: base.balance.token.address,
+      priceA,
+      priceB,
+      priceDiff: hasBoth ? priceB - priceA : undefined,
+      priceDiffPercent,
+      flagged: priceDiffPercent !== undefined && Math.abs(priceDiffPercent) > thresholds.priceDiffPercent,
+    });
+  }
+
+  tokens.sort((a, b) => Math.abs(b.priceDiffPercent || 0) - Math.abs(a.priceDiffPercent || 0));
+
+  return {
+    tokens,
+    flaggedCount: tokens.filter(t => t.flagged).length,
+    attribution: attributeDiff(positionDiffs, totalValueDiffUSD),
+  };
+}
+
+/**
+ * 空的差异类型计数
+ */
+function emptyDiffTypeCounts(): DiffTypeCounts {
+  return { added: 0, removed: 0, changed: 0, unchanged: 0 };
+}
+
+/**
+ * 按排序方式对聚合结果排序
+ */
+function sortAggregates<T extends { diff: number; diffPercent: number }>(items: T[], sort: AggregateSort): T[] {
+  return items.sort((a, b) => sort === 'diffPercent'
+    ? Math.abs(b.diffPercent) - Math.abs(a.diffPercent)
+    : Math.abs(b.diff) - Math.abs(a.diff));
+}
+
+/**
+ * 按协议聚合对比（protocol + chain），默认按差异金额绝对值倒序
+ */
+export function aggregateByProtocol(
+  result: DataSourceCompareResult,
+  sort: AggregateSort = 'absDiff'
+): ProtocolAggregate[] {
+  const protocolTotals = new Map<string, ProtocolAggregate>();
 
   for (const diff of result.positionDiffs) {
-    const key = getProtocolKey(diff.positionA || diff.positionB!);
+    const position = diff.positionA || diff.positionB!;
+    const key = getProtocolKey(position);
     
-    if (!protocolTotals[key]) {
-      protocolTotals[key] = {
+    if (!protocolTotals.has(key)) {
+      protocolTotals.set(key, {
+        protocolId: position.protocol.id,
         protocol: diff.protocol,
         chain: diff.chain,
         totalA: 0,
         totalB: 0,
-      };
+        diff: 0,
+        diffPercent: 0,
+        positionCounts: emptyDiffTypeCounts(),
+      });
+    }
+
+    const aggregate = protocolTotals.get(key)!;
+    aggregate.totalA += diff.positionA?.totalValueUSD || 0;
+    aggregate.totalB += diff.positionB?.totalValueUSD || 0;
+    aggregate.positionCounts[diff.diffType]++;
+  }
+
+  const aggregates = Array.from(protocolTotals.values()).map(aggregate => ({
+    ...aggregate,
+    diff: aggregate.totalB - aggregate.totalA,
+    diffPercent: percentDiff(aggregate.totalA, aggregate.totalB),
+  }));
+
+  return sortAggregates(aggregates, sort);
+}
+
+/**
+ * 按链聚合对比，默认按差异金额绝对值倒序
+ */
+export function aggregateByChain(
+  result: DataSourceCompareResult,
+  sort: AggregateSort = 'absDiff'
+): ChainAggregate[] {
+  const chainTotals = new Map<string, ChainAggregate & { protocols: Set<string> }>();
+
+  for (const diff of result.positionDiffs) {
+    const position = diff.positionA || diff.positionB!;
+
+    if (!chainTotals.has(diff.chain)) {
+      chainTotals.set(diff.chain, {
+        chain: diff.chain,
+        totalA: 0,
+        totalB: 0,
+        diff: 0,
+        diffPercent: 0,
+        protocolCount: 0,
+        positionCounts: emptyDiffTypeCounts(),
+        protocols: new Set<string>(),
+      });
     }
 
-    protocolTotals[key].totalA += diff.positionA?.totalValueUSD || 0;
-    protocolTotals[key].totalB += diff.positionB?.totalValueUSD || 0;
+    const aggregate = chainTotals.get(diff.chain)!;
+    aggregate.totalA += diff.positionA?.totalValueUSD || 0;
+    aggregate.totalB += diff.positionB?.totalValueUSD || 0;
+    aggregate.positionCounts[diff.diffType]++;
+    aggregate.protocols.add(position.protocol.id);
+  }
+
+  const aggregates = Array.from(chainTotals.values()).map(({ protocols, ...aggregate }) => ({
+    ...aggregate,
+    diff: aggregate.totalB - aggregate.totalA,
+    diffPercent: percentDiff(aggregate.totalA, aggregate.totalB),
+    protocolCount: protocols.size,
+  }));
+
+  return sortAggregates(aggregates, sort);
+}
+
+/**
+ * 计算中位数
+ */
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * 多数据源对比
+ * 以第一个数据源为基准逐个对齐：每个新数据源与已有的对齐组（取组内最早出现的 position 作为代表）做全局最优匹配，
+ * 未匹配上的 position 新建对齐组。每组以各数据源取值的中位数（缺失按 0 计）作为共识值，
+ * 偏离共识最大且超过阈值的数据源记为离群
+ * @param sources 数据源 id 与数据，顺序即对齐顺序
+ */
+export function compareMultipleSources(
+  sources: Array<{ id: string; data: AddressDefiData }>,
+  options: CompareOptions = {}
+): MultiSourceCompareResult {
+  const matchMode = options.matchMode || 'address';
+  const thresholds = resolveThresholds(options.thresholds);
+  const sourceIds = sources.map(s => s.id);
+
+  // 对齐组：每个数据源最多一个 position
+  const clusters: Array<Map<string, Position>> = [];
+
+  for (const { id, data } of sources) {
+    const representatives = clusters.map(cluster => cluster.values().next().value as Position);
+    const matches = matchPositions(representatives, data.positions, matchMode);
+    const matched = new Set<Position>();
+
+    representatives.forEach((rep, index) => {
+      const match = matches.get(rep);
+      if (match) {
+        clusters[index].set(id, match.position);
+        matched.add(match.position);
+      }
+    });
+
+    data.positions
+      .filter(p => !matched.has(p))
+      .forEach(p => clusters.push(new Map([[id, p]])));
   }
 
-  const result2: Record<string, any> = {};
-  for (const [key, data] of Object.entries(protocolTotals)) {
-    const diff = data.totalB - data.totalA;
-    const diffPercent = data.totalA > 0 ? (diff / data.totalA) * 100 : 0;
-    result2[key] = {
-      ...data,
-      diff,
-      diffPercent,
-    };
+  const sourceStats: Record<string, SourceOutlierStats> = {};
+  sources.forEach(({ id, data }) => {
+    sourceStats[id] = { totalValueUSD: data.totalValueUSD, outlierPositions: 0, outlierDeviationUSD: 0 };
+  });
+
+  const positions: AlignedPosition[] = [];
+  for (const cluster of clusters) {
+    const values = sourceIds.map(id => cluster.get(id)?.totalValueUSD || 0);
+
+    // 所有数据源价值都低于最小值的对齐组不参与对比
+    if (values.every(v => Math.abs(v) < thresholds.minPositionValueUSD)) continue;
+
+    const consensusValueUSD = median(values);
+    const rep = cluster.values().next().value as Position;
+
+    const sourceValues: Record<string, AlignedSourceValue> = {};
+    let outlierSource: string | undefined;
+    let maxDeviation = 0;
+    let exceeded = false;
+    let tied = false;
+
+    sourceIds.forEach((id, index) => {
+      const position = cluster.get(id);
+      const deviationUSD = values[index] - consensusValueUSD;
+      const deviationPercent = percentDiff(consensusValueUSD, values[index]);
+      sourceValues[id] = {
+        present: Boolean(position),
+        valueUSD: values[index],
+        deviationUSD,
+        deviationPercent,
+        positionId: position?.id,
+      };
+
+      if (!isChangedDiff(deviationUSD, deviationPercent, thresholds)) return;
+      exceeded = true;
+      if (Math.abs(deviationUSD) > maxDeviation) {
+        maxDeviation = Math.abs(deviationUSD);
+        outlierSource = id;
+        tied = false;
+      } else if (Math.abs(deviationUSD) === maxDeviation) {
+        tied = true;
+      }
+    });
+
+    // 多个数据源偏离程度相同时无法判断哪个出错，不标记离群数据源
+    if (tied) outlierSource = undefined;
+
+    if (outlierSource) {
+      sourceStats[outlierSource].outlierPositions++;
+      sourceStats[outlierSource].outlierDeviationUSD += maxDeviation;
+    }
+
+    positions.push({
+      protocolId: rep.protocol.id,
+      protocol: rep.protocol.name,
+      chain: rep.protocol.chain,
+      type: rep.type,
+      sources: sourceValues,
+      presentIn: sourceIds.filter(id => cluster.has(id)),
+      missingIn: sourceIds.filter(id => !cluster.has(id)),
+      consensusValueUSD,
+      outlierSource,
+      agreed: !exceeded,
+    });
   }
 
-  return result2;
+  // 离群的排在前面，同类按共识值绝对值排序
+  positions.sort((a, b) => {
+    if (a.agreed !== b.agreed) return a.agreed ? 1 : -1;
+    return Math.abs(b.consensusValueUSD) - Math.abs(a.consensusValueUSD);
+  });
+
+  return {
+    address: sources[0]?.data.address || '',
+    sources: sourceIds,
+    data: Object.fromEntries(sources.map(({ id, data }) => [id, data])),
+    positions,
+    summary: {
+      totalPositions: positions.length,
+      agreedPositions: positions.filter(p => p.agreed).length,
+      consensusTotalUSD: positions.reduce((sum, p) => sum + p.consensusValueUSD, 0),
+      sourceStats,
+      thresholds,
+    },
+  };
 }
@@ -0,0 +1,127 @@
+/**
+ * 数据源对比流程
+ * 拉取数据源的数据并对比：第一个数据源作为基准，其余数据源使用基准返回的链列表对齐查询范围；
+ * 不支持按链过滤的数据源（如 Zerion）作为对比方时，去掉基准没有查询过的链上的 position
+ */
+import type {
+  AddressDefiData,
+  CompareOptions,
+  DataSourceCompareResult,
+  Env,
+  MultiSourceCompareResult,
+  PortfolioProvider,
+  ProviderFetchOptions
+} from '../types';
+import { compareDataSources, compareMultipleSources } from './compare';
+import { fetchDefiData } from './cache';
+import { sumBreakdowns } from '../utils/position';
+
+/**
+ * 对比流程选项
+ */
+export interface SourceComparisonOptions {
+  fetchOptions?: ProviderFetchOptions;
+  compareOptions?: CompareOptions;
+  fresh?: boolean;  // 跳过缓存，重新拉取数据源
+}
+
+/**
+ * 将时间预算 deadlineMs 换算为截止时间，同一次对比的多个数据源共用
+ */
+export function resolveFetchDeadline(options: ProviderFetchOptions = {}): ProviderFetchOptions {
+  if (options.deadline !== undefined || !options.deadlineMs) return options;
+  return { ...options, deadline: Date.now() + options.deadlineMs };
+}
+
+/**
+ * 基准数据源实际查询过的链
+ * 按网络查询的数据源（有 networkStatus）只覆盖查询过的网络，其余数据源覆盖全部链，返回 undefined
+ */
+function queriedChains(base: AddressDefiData): Set<string> | undefined {
+  if (!base.networkStatus) return undefined;
+  return new Set(Object.values(base.networkStatus).map(status => status.chain));
+}
+
+/**
+ * 去掉基准数据源没有查询过的链上的 position 并重新计算总值，
+ * 避免对比方在这些链上的 position 全部显示为 added
+ */
+function alignToBaseChains(data: AddressDefiData, base: AddressDefiData): AddressDefiData {
+  const chains = queriedChains(base);
+  if (!chains) return data;
+
+  const positions = data.positions.filter(p => chains.has(p.protocol.chain));
+  if (positions.length === data.positions.length) return data;
+
+  console.log(`[Compare] Dropped ${data.positions.length - positions.length} ${data.source} positions on chains ${base.source} did not query`);
+  const breakdown = sumBreakdowns(positions);
+  return {
+    ...data,
+    positions,
+    breakdown,
+    totalValueUSD: breakdown.netWorthUSD,
+    chains: data.chains.filter(chain => chains.has(chain)),
+  };
+}
+
+/**
+ * 拉取两个数据源的数据并对比
+ * 设置了时间预算时，B 使用 A 剩余的预算，超时的网络标记为 timeout 并在对比中标记为失败链
+ */
+export async function runSourceComparison(
+  env: Env,
+  address: string,
+  providerA: PortfolioProvider,
+  providerB: PortfolioProvider,
+  options: SourceComparisonOptions = {}
+): Promise<DataSourceCompareResult> {
+  const fetchOptions = resolveFetchDeadline(options.fetchOptions);
+
+  // 首先获取 A 的数据（作为基准）
+  console.log(`[Compare] Fetching ${providerA.name} data for ${address}`);
+  const dataA = await fetchDefiData(env, providerA, address, fetchOptions, options.fresh);
+
+  console.log(`[Compare] ${providerA.name} found ${dataA.positions.length} positions on ${dataA.chains.length} chains`);
+
+  // 然后获取 B 的数据（使用 A 返回的链列表来对齐查询范围）
+  console.log(`[Compare] Fetching ${providerB.name} data for ${address} on chains: ${dataA.chains.join(', ')}`);
+  const dataB = await fetchDefiData(env, providerB, address, {
+    ...fetchOptions,
+    chains: dataA.chains,  // 传入 A 的链列表，确保查询范围一致
+  }, options.fresh);
+
+  console.log(`[Compare] ${providerB.name} found ${dataB.positions.length} positions`);
+
+  return compareDataSources(dataA, alignToBaseChains(dataB, dataA), options.compareOptions);
+}
+
+/**
+ * 拉取多个数据源的数据并做 N 路对比
+ * 第一个数据源作为基准先拉取，其余数据源并行拉取
+ */
+export async function runMultiSourceComparison(
+  env: Env,
+  address: string,
+  providers: PortfolioProvider[],
+  options: SourceComparisonOptions = {}
+): Promise<MultiSourceCompareResult> {
+  const fetchOptions = resolveFetchDeadline(options.fetchOptions);
+  const [baseProvider, ...otherProviders] = providers;
+
+  console.log(`[Compare] Fetching ${baseProvider.name} data for ${address} (baseline of ${providers.length} sources)`);
+  const baseData = await fetchDefiData(env, baseProvider, address, fetchOptions, options.fresh);
+
+  const otherData = await Promise.all(
+    otherProviders.map(provider => fetchDefiData(env, provider, address, {
+      ...fetchOptions,
+      chains: baseData.chains,
+    }, options.fresh))
+  );
+
+  const sources = [
+    { id: baseProvider.id, data: baseData },
+    ...otherProviders.map((provider, index) => ({ id: provider.id, data: alignToBaseChains(otherData[index], baseData) })),
+  ];
+
+  return compareMultipleSources(sources, options.compareOptions);
+}
@@ -0,0 +1,280 @@
+/**
+ * DeBank Pro API 服务
+ * 将 all_complex_protocol_list 格式（portfolio_item_list + supply / borrow / reward token 列表）
+ * 转换为统一的 AddressDefiData
+ */
+import type { AddressDefiData, Position, PositionType, Token, TokenBalance, TokenRole } from '../types';
+import { summarizeTokens, sumBreakdowns } from '../utils/position';
+import { normalizeProtocol } from '../registry/protocols';
+import { normalizeChainId, getDebankChainId } from '../registry/chains';
+import { createUpstreamContext, upstreamFetch, type UpstreamContext } from '../utils/http';
+
+const DEBANK_API_BASE = 'https://pro-openapi.debank.com/v1';
+
+/**
+ * DeBank token 类型定义
+ * 原生代币的 id 为链 id（如 eth / arb），ERC20 为合约地址
+ */
+export interface DebankToken {
+  id: string;
+  chain: string;
+  name?: string;
+  symbol: string;
+  optimized_symbol?: string;
+  decimals?: number;
+  logo_url?: string;
+  price?: number;
+  amount: number;
+  raw_amount?: number;
+}
+
+/**
+ * DeBank portfolio item 类型定义
+ */
+export interface DebankPortfolioItem {
+  name: string;               // Lending / Liquidity Pool / Staked / Farming / Locked / Rewards ...
+  detail_types?: string[];    // lending / common / locked / vesting / reward / leveraged_farming ...
+  stats?: {
+    asset_usd_value?: number;
+    debt_usd_value?: number;
+    net_usd_value?: number;
+  };
+  detail?: {
+    supply_token_list?: DebankToken[];
+    borrow_token_list?: DebankToken[];
+    reward_token_list?: DebankToken[];
+    token_list?: DebankToken[];
+    health_rate?: number;
+    description?: string;
+  };
+  pool?: {
+    id?: string;
+    chain?: string;
+    project_id?: string;
+    controller?: string;
+  };
+  position_index?: string;
+}
+
+/**
+ * DeBank protocol 类型定义
+ * 非以太坊主网的协议 id 带链前缀，如 arb_aave3
+ */
+export interface DebankProtocol {
+  id: string;
+  chain: string;
+  name: string;
+  logo_url?: string;
+  site_url?: string;
+  portfolio_item_list: DebankPortfolioItem[];
+}
+
+/**
+ * 获取 DeBank API Headers
+ */
+function getHeaders(accessKey: string): Record<string, string> {
+  return {
+    'AccessKey': accessKey,
+    'Accept': 'application/json',
+  };
+}
+
+/**
+ * 映射 DeBank portfolio item 到统一类型
+ * 优先按 item name 判断，其次按 detail_types
+ */
+function mapItemType(item: DebankPortfolioItem): PositionType {
+  const nameMap: Record<string, PositionType> = {
+    'lending': 'lending',
+    'deposit': 'lending',
+    'liquidity pool': 'liquidity',
+    'staked': 'staking',
+    'locked': 'staking',
+    'vesting': 'staking',
+    'rewards': 'staking',
+    'farming': 'farming',
+    'leveraged farming': 'farming',
+    'yield': 'farming',
+  };
+  const byName = nameMap[(item.name || '').toLowerCase()];
+  if (byName) return byName;
+
+  const detailTypeMap: Record<string, PositionType> = {
+    'lending': 'lending',
+    'leveraged_farming': 'farming',
+    'locked': 'staking',
+    'vesting': 'staking',
+    'reward': 'staking',
+  };
+  for (const detailType of item.detail_types || []) {
+    if (detailTypeMap[detailType]) return detailTypeMap[detailType];
+  }
+  return 'other';
+}
+
+/**
+ * 去掉 DeBank 协议 id 的链前缀（arb_aave3 -> aave3）
+ */
+function stripChainPrefix(protocolId: string, chain: string): string {
+  const prefix = `${chain}_`;
+  return protocolId.startsWith(prefix) ? protocolId.slice(prefix.length) : protocolId;
+}
+
+/**
+ * 转换 DeBank token 到 TokenBalance
+ */
+function transformToken(token: DebankToken, role: TokenRole): TokenBalance {
+  const normalized: Token = {
+    symbol: token.optimized_symbol || token.symbol || 'UNKNOWN',
+    name: token.name || token.symbol || 'Unknown Token',
+    // 原生代币的 id 为链 id，统一为 native
+    address: token.id?.startsWith('0x') ? token.id : 'native',
+    decimals: token.decimals ?? 18,
+    price: token.price,
+    logo: token.logo_url,
+  };
+
+  return {
+    token: normalized,
+    role,
+    balance: String(token.raw_amount ?? token.amount ?? 0),
+    balanceFormatted: token.amount || 0,
+    balanceUSD: Math.abs((token.amount || 0) * (token.price || 0)),
+  };
+}
+
+/**
+ * 转换单个 portfolio item 到统一格式
+ */
+function transformItem(protocol: DebankProtocol, item: DebankPortfolioItem, index: number): Position {
+  const chain = normalizeChainId(item.pool?.chain || protocol.chain);
+  const type = mapItemType(item);
+  const assetRole: TokenRole = type === 'liquidity' ? 'lp' : 'supply';
+  const detail = item.detail || {};
+
+  const tokens: TokenBalance[] = [
+    ...(detail.supply_token_list || []).map(t => transformToken(t, assetRole)),
+    ...(detail.token_list || []).map(t => transformToken(t, assetRole)),
+    ...(detail.reward_token_list || []).map(t => transformToken(t, 'reward')),
+    ...(detail.borrow_token_list || []).map(t => transformToken(t, 'borrow')),
+  ];
+  const valueBreakdown = summarizeTokens(tokens);
+
+  const rawProtocolId = stripChainPrefix(protocol.id, protocol.chain);
+  const normalizedProtocol = normalizeProtocol('debank', {
+    id: rawProtocolId,
+    name: protocol.name,
+    chain,
+    logo: protocol.logo_url,
+  });
+
+  return {
+    id: `${normalizedProtocol.id}-${chain}-${item.pool?.id || item.position_index || index}`,
+    protocol: normalizedProtocol,
+    type,
+    tokens,
+    totalValueUSD: valueBreakdown.netWorthUSD,
+    valueBreakdown,
+    healthFactor: detail.health_rate,
+    metadata: {
+      rawType: item.name,
+      detailTypes: item.detail_types,
+      poolId: item.pool?.id,
+      stats: item.stats,
+    },
+  };
+}
+
+/**
+ * 从 positions 中提取所有唯一的链
+ */
+function extractChains(positions: Position[]): string[] {
+  const chains = new Set<string>();
+  positions.forEach(p => {
+    if (p.protocol.chain && p.protocol.chain !== 'unknown') {
+      chains.add(p.protocol.chain);
+    }
+  });
+  return Array.from(chains).sort();
+}
+
+/**
+ * 将 all_complex_protocol_list 响应转换为统一格式
+ * 纯函数，可直接用录制的 fixture JSON 验证
+ */
+export function transformComplexProtocolList(address: string, protocols: DebankProtocol[]): AddressDefiData {
+  const positions = protocols
+    .flatMap(protocol => (protocol.portfolio_item_list || []).map((item, index) => transformItem(protocol, item, index)))
+    .sort((a, b) => b.totalValueUSD - a.totalValueUSD);
+
+  const breakdown = sumBreakdowns(positions);
+
+  return {
+    address: address.toLowerCase(),
+    totalValueUSD: breakdown.netWorthUSD,
+    breakdown,
+    positions,
+    chains: extractChains(positions),
+    lastUpdated: new Date().toISOString(),
+    source: 'DeBank',
+  };
+}
+
+/**
+ * 获取原始 all_complex_protocol_list 数据
+ * @param chains 可选，限定查询的链（canonical id）
+ */
+export async function getRawComplexProtocolList(
+  address: string,
+  accessKey: string,
+  chains?: string[],
+  upstream: UpstreamContext = createUpstreamContext('debank')
+): Promise<DebankProtocol[]> {
+  const params = new URLSearchParams({ id: address.toLowerCase() });
+  const chainIds = (chains || [])
+    .map(getDebankChainId)
+    .filter((id): id is string => Boolean(id));
+  if (chainIds.length > 0) {
+    params.set('chain_ids', chainIds.join(','));
+  }
+
+  const response = await upstreamFetch(upstream, `${DEBANK_API_BASE}/user/all_complex_protocol_list?${params}`, {
+    headers: getHeaders(accessKey),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`DeBank API error: ${response.status} - ${errorText}`);
+  }
+
+  return response.json() as Promise<DebankProtocol[]>;
+}
+
+/**
+ * 获取地址的完整 DeFi 数据
+ * @param address 钱包地址
+ * @param accessKey DeBank AccessKey
+ * @param targetChains 可选，指定要查询的链（用于与基准数据源对齐）
+ * @param deadline 可选，截止时间（epoch ms）
+ */
+export async function getAddressDefiData(
+  address: string,
+  accessKey: string,
+  targetChains?: string[],
+  deadline?: number
+): Promise<AddressDefiData> {
+  const startedAt = Date.now();
+  const upstream = createUpstreamContext('debank', deadline);
+  const protocols = await getRawComplexProtocolList(address, accessKey, targetChains, upstream);
+  const data = transformComplexProtocolList(address, protocols);
+
+  console.log(`[DeBank] Found ${data.positions.length} positions in ${protocols.length} protocols, total value: $${data.totalValueUSD.toFixed(2)}`);
+
+  return {
+    ...data,
+    fetchMeta: {
+      durationMs: Date.now() - startedAt,
+      ...upstream.stats,
+    },
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * 健康分计算
+ * 分数 = 100 × (1 - 差异金额 / 总价值)，差异金额为有差异的 position 的差异绝对值之和，
+ * 总价值为各 position 两边价值绝对值的较大者之和；unchanged 的 position 不计差异，
+ * 位于请求失败的链上（unreliable）的 position 不计入
+ */
+import type {
+  DataSourceCompareResult,
+  HealthStatus,
+  PositionDiff,
+  ProtocolHealth,
+  WalletHealth
+} from '../types';
+
+// 健康状态分数线
+const HEALTHY_SCORE = 95;
+const DEGRADED_SCORE = 80;
+
+/**
+ * 单个 position 差异的差异金额和总价值
+ */
+function measureDiff(diff: PositionDiff): { discrepancyUSD: number; grossValueUSD: number } {
+  const grossValueUSD = Math.max(
+    Math.abs(diff.positionA?.totalValueUSD || 0),
+    Math.abs(diff.positionB?.totalValueUSD || 0)
+  );
+  const discrepancyUSD = diff.diffType === 'unchanged' ? 0 : Math.abs(diff.valueDiffUSD || 0);
+  return { discrepancyUSD, grossValueUSD };
+}
+
+/**
+ * 根据差异金额和总价值计算分数（保留一位小数）
+ */
+function toScore(discrepancyUSD: number, grossValueUSD: number): number {
+  if (grossValueUSD === 0) return 100;
+  const ratio = Math.min(discrepancyUSD / grossValueUSD, 1);
+  return Math.round((1 - ratio) * 1000) / 10;
+}
+
+/**
+ * 分数对应的健康状态
+ */
+export function toHealthStatus(score: number | null): HealthStatus {
+  if (score === null) return 'failed';
+  if (score >= HEALTHY_SCORE) return 'healthy';
+  if (score >= DEGRADED_SCORE) return 'degraded';
+  return 'unhealthy';
+}
+
+/**
+ * 计算单个钱包的健康分
+ */
+export function computeWalletHealth(result: DataSourceCompareResult): Pick<WalletHealth, 'score' | 'status' | 'discrepancyUSD' | 'grossValueUSD' | 'totalValueDiffPercent'> {
+  let discrepancyUSD = 0;
+  let grossValueUSD = 0;
+
+  for (const diff of result.positionDiffs) {
+    if (diff.unreliable) continue;
+    const measured = measureDiff(diff);
+    discrepancyUSD += measured.discrepancyUSD;
+    grossValueUSD += measured.grossValueUSD;
+  }
+
+  const score = toScore(discrepancyUSD, grossValueUSD);
+  return {
+    score,
+    status: toHealthStatus(score),
+    discrepancyUSD,
+    grossValueUSD,
+    totalValueDiffPercent: result.summary.totalValueDiffPercent,
+  };
+}
+
+/**
+ * 计算单个钱包中每个协议（protocol + chain）的差异金额和总价值
+ * 定时监控分批对比时先按钱包保存，全部完成后再用 mergeProtocolHealth 汇总
+ */
+export function measureProtocolHealth(result: DataSourceCompareResult): ProtocolHealth[] {
+  const protocols = new Map<string, ProtocolHealth>();
+
+  for (const diff of result.positionDiffs) {
+    const position = diff.positionA || diff.positionB;
+    if (!position || diff.unreliable) continue;
+
+    const key = `${position.protocol.id}-${diff.chain}`;
+    if (!protocols.has(key)) {
+      protocols.set(key, {
+        protocolId: position.protocol.id,
+        protocol: diff.protocol,
+        chain: diff.chain,
+        score: 100,
+        status: 'healthy',
+        discrepancyUSD: 0,
+        grossValueUSD: 0,
+        walletCount: 1,
+      });
+    }
+
+    const protocol = protocols.get(key)!;
+    const measured = measureDiff(diff);
+    protocol.discrepancyUSD += measured.discrepancyUSD;
+    protocol.grossValueUSD += measured.grossValueUSD;
+  }
+
+  return Array.from(protocols.values()).map(protocol => {
+    const score = toScore(protocol.discrepancyUSD, protocol.grossValueUSD);
+    return { ...protocol, score, status: toHealthStatus(score) };
+  });
+}
+
+/**
+ * 汇总多个钱包的协议差异，计算每个协议（protocol + chain）的健康分，按分数升序
+ */
+export function mergeProtocolHealth(perWallet: ProtocolHealth[][]): ProtocolHealth[] {
+  const protocols = new Map<string, ProtocolHealth>();
+
+  for (const measured of perWallet.flat()) {
+    const key = `${measured.protocolId}-${measured.chain}`;
+    const existing = protocols.get(key);
+    if (!existing) {
+      protocols.set(key, { ...measured });
+      continue;
+    }
+    existing.discrepancyUSD += measured.discrepancyUSD;
+    existing.grossValueUSD += measured.grossValueUSD;
+    existing.walletCount += measured.walletCount;
+  }
+
+  return Array.from(protocols.values())
+    .map(protocol => {
+      const score = toScore(protocol.discrepancyUSD, protocol.grossValueUSD);
+      return { ...protocol, score, status: toHealthStatus(score) };
+    })
+    .sort((a, b) => a.score - b.score || b.discrepancyUSD - a.discrepancyUSD);
+}
@@ -0,0 +1,99 @@
+/**
+ * 监控列表定时对比
+ * 由 Worker scheduled handler（cron trigger）触发，交给 Durable Object `WatchlistMonitor` 通过 alarm 分批处理
+ * （每个钱包需要几十个上游请求和 KV 操作，一次调用对比整个列表会超过子请求上限）：
+ * 对比每个钱包、保存快照并检查告警，全部完成后计算每个钱包和每个协议的健康分
+ */
+import type {
+  BatchCompareRequest,
+  Env,
+  HealthReport,
+  ProtocolHealth,
+  WalletHealth,
+  WatchlistEntry
+} from '../types';
+import { compareBatchEntry } from './batch';
+import { recordComparison } from './snapshots';
+import { computeWalletHealth, measureProtocolHealth, mergeProtocolHealth } from './health';
+import { listWatchlist } from './watchlist';
+
+// 定时监控使用的 Durable Object 实例名（全局只有一个，避免两轮监控同时进行）
+const MONITOR_INSTANCE = 'watchlist';
+
+/**
+ * 单个钱包的监控结果（健康分 + 各协议的差异，供最终汇总）
+ */
+export interface MonitorEntryOutcome {
+  health: WalletHealth;
+  protocols: ProtocolHealth[];
+}
+
+/**
+ * 对比监控列表中的单个钱包
+ */
+export async function monitorEntry(env: Env, entry: WatchlistEntry): Promise<MonitorEntryOutcome> {
+  const request: BatchCompareRequest = {
+    entries: [{ address: entry.address, label: entry.label }],
+    a: entry.a,
+    b: entry.b,
+    concurrency: 1,
+    fresh: true,  // 定时监控总是拉取最新数据
+    compareOptions: {
+      matchMode: entry.matchMode,
+      thresholds: entry.thresholds,
+    },
+  };
+
+  const base = {
+    address: entry.address,
+    label: entry.label,
+    providers: { a: entry.a, b: entry.b },
+  };
+
+  const { item, result } = await compareBatchEntry(env, request.entries[0], request);
+  if (!result) {
+    return { health: { ...base, score: null, status: 'failed', error: item.error }, protocols: [] };
+  }
+
+  const snapshot = await recordComparison(env, result, { a: entry.a, b: entry.b, label: entry.label });
+
+  return {
+    health: { ...base, ...computeWalletHealth(result), snapshotId: snapshot?.id },
+    protocols: measureProtocolHealth(result),
+  };
+}
+
+/**
+ * 根据各钱包的监控结果生成健康报告
+ */
+export function buildHealthReport(startedAt: number, outcomes: MonitorEntryOutcome[]): HealthReport {
+  const wallets = outcomes.map(o => o.health);
+  const scores = wallets
+    .map(w => w.score)
+    .filter((score): score is number => score !== null);
+
+  return {
+    runAt: new Date(startedAt).toISOString(),
+    durationMs: Date.now() - startedAt,
+    averageScore: scores.length > 0
+      ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length * 10) / 10
+      : null,
+    wallets,
+    protocols: mergeProtocolHealth(outcomes.map(o => o.protocols)),
+  };
+}
+
+/**
+ * 启动一轮监控列表对比（由 WatchlistMonitor 分批执行，完成后保存健康报告）
+ * @returns 是否启动，上一轮尚未完成时返回 false
+ */
+export async function runWatchlistMonitor(env: Env): Promise<boolean> {
+  const entries = await listWatchlist(env.COMPARE_KV);
+  const monitor = env.WATCHLIST_MONITOR.get(env.WATCHLIST_MONITOR.idFromName(MONITOR_INSTANCE));
+  const started = await monitor.start(entries);
+
+  console.log(started
+    ? `[Monitor] Dispatched watchlist comparison for ${entries.length} wallets`
+    : '[Monitor] Previous run still in progress, skipping');
+  return started;
+}
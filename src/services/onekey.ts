@@ -2,7 +2,20 @@
  * OneKey Portfolio API 服务
  * 参考文档: https://github.com/OneKeyHQ/server-service-onchain/docs/features/defi-portfolio/attachments/zerion-onekey-api-comparison.md
  */
-import type { AddressDefiData, Position, TokenBalance, PositionType, Token } from '../types';
+import type {
+  AddressDefiData,
+  NetworkFetchStatus,
+  NetworkStatus,
+  Position,
+  TokenBalance,
+  PositionType,
+  Token,
+  TokenRole
+} from '../types';
+import { summarizeTokens, sumBreakdowns } from '../utils/position';
+import { normalizeProtocol } from '../registry/protocols';
+import { normalizeChainId, getOnekeyNetworkId, getPrimaryOnekeyNetworkIds } from '../registry/chains';
+import { createUpstreamContext, upstreamFetch, isTimeoutError, type UpstreamContext } from '../utils/http';
 
 // OneKey API 配置
 const ONEKEY_API_BASE = 'https://wallet.onekeycn.com/wallet/v1/portfolio';
@@ -10,101 +23,6 @@ const ONEKEY_API_BASE = 'https://wallet.onekeycn.com/wallet/v1/portfolio';
 // 固定的 Instance ID (全 8)
 const INSTANCE_ID = '88888888-8888-8888-8888-888888888888';
 
-// OneKey networkId 到 Zerion chain 的映射
-const NETWORK_ID_TO_CHAIN: Record<string, string> = {
-  'evm--1': 'ethereum',
-  'evm--10': 'optimism',
-  'evm--100': 'xdai',
-  'evm--1101': 'polygon-zkevm',
-  'evm--130': 'unichain',
-  'evm--1313161554': 'aurora',
-  'evm--137': 'polygon',
-  'evm--143': 'monad',
-  'evm--146': 'sonic',
-  'evm--196': 'okbchain',
-  'evm--250': 'fantom',
-  'evm--324': 'zksync-era',
-  'evm--42161': 'arbitrum',
-  'evm--42220': 'celo',
-  'evm--43114': 'avalanche',
-  'evm--480': 'world',
-  'evm--50': 'xinfin-xdc',
-  'evm--5000': 'mantle',
-  'evm--534352': 'scroll',
-  'evm--56': 'binance-smart-chain',
-  'evm--59144': 'linea',
-  'evm--7777777': 'zora',
-  'evm--80094': 'berachain',
-  'evm--81457': 'blast',
-  'evm--8453': 'base',
-  'evm--9745': 'plasma',
-  'evm--999': 'hyperevm',
-};
-
-// Chain 到 networkId 的反向映射
-const CHAIN_TO_NETWORK_ID: Record<string, string> = Object.fromEntries(
-  Object.entries(NETWORK_ID_TO_CHAIN).map(([k, v]) => [v, k])
-);
-
-// OneKey 返回的 chain 简称到标准 chain 名的映射
-const ONEKEY_CHAIN_TO_STANDARD: Record<string, string> = {
-  'eth': 'ethereum',
-  'bsc': 'binance-smart-chain',
-  'arb': 'arbitrum',
-  'op': 'optimism',
-  'matic': 'polygon',
-  'avax': 'avalanche',
-  'ftm': 'fantom',
-  'gnosis': 'xdai',
-  'celo': 'celo',
-  // 已经是标准名的不需要映射
-  'arbitrum': 'arbitrum',
-  'optimism': 'optimism',
-  'polygon': 'polygon',
-  'avalanche': 'avalanche',
-  'base': 'base',
-  'blast': 'blast',
-  'linea': 'linea',
-  'scroll': 'scroll',
-  'zksync-era': 'zksync-era',
-  'mantle': 'mantle',
-  'zora': 'zora',
-  'berachain': 'berachain',
-  'fantom': 'fantom',
-  'xdai': 'xdai',
-  'aurora': 'aurora',
-  'polygon-zkevm': 'polygon-zkevm',
-  'ethereum': 'ethereum',
-  'binance-smart-chain': 'binance-smart-chain',
-};
-
-/**
- * 标准化 chain 名称
- */
-function normalizeChainName(chain: string): string {
-  return ONEKEY_CHAIN_TO_STANDARD[chain.toLowerCase()] || chain.toLowerCase();
-}
-
-// 主要链列表（优先查询）
-const PRIMARY_NETWORKS = [
-  'evm--1',      // ethereum
-  'evm--42161',  // arbitrum
-  'evm--10',     // optimism
-  'evm--8453',   // base
-  'evm--137',    // polygon
-  'evm--56',     // binance-smart-chain
-  'evm--43114',  // avalanche
-  'evm--324',    // zksync-era
-  'evm--59144',  // linea
-  'evm--534352', // scroll
-  'evm--5000',   // mantle
-  'evm--81457',  // blast
-  'evm--250',    // fantom
-  'evm--100',    // xdai (gnosis)
-  'evm--42220',  // celo
-  'evm--80094',  // berachain
-];
-
 /**
  * 生成动态 Request ID
  */
@@ -220,10 +138,20 @@ function mapCategory(category: string): PositionType {
   return categoryMap[category.toLowerCase()] || 'other';
 }
 
+/**
+ * 根据 OneKey asset 的 category 修正角色（assets 中可能混有 reward / debt）
+ */
+function resolveAssetRole(asset: OnekeyAsset, defaultRole: TokenRole): TokenRole {
+  const category = asset.category?.toLowerCase();
+  if (category === 'debt' || category === 'borrow') return 'borrow';
+  if (category === 'reward') return 'reward';
+  return defaultRole;
+}
+
 /**
  * 转换 OneKey Asset 到 TokenBalance
  */
-function transformAsset(asset: OnekeyAsset): TokenBalance {
+function transformAsset(asset: OnekeyAsset, defaultRole: TokenRole): TokenBalance {
   const token: Token = {
     symbol: asset.symbol || 'UNKNOWN',
     name: asset.name || asset.symbol || 'Unknown Token',
@@ -235,9 +163,10 @@ function transformAsset(asset: OnekeyAsset): TokenBalance {
 
   return {
     token,
+    role: resolveAssetRole(asset, defaultRole),
     balance: asset.amount || '0',
     balanceFormatted: parseFloat(asset.amount) || 0,
-    balanceUSD: asset.value || 0,
+    balanceUSD: Math.abs(asset.value || 0),
   };
 }
 
@@ -245,35 +174,30 @@ function transformAsset(asset: OnekeyAsset): TokenBalance {
  * 转换 OneKey Position 到统一格式
  */
 function transformPosition(pos: OnekeyPosition, index: number): Position {
-  // 使用 chain 字段或从 networkId 映射，并标准化名称
-  const rawChain = pos.chain || NETWORK_ID_TO_CHAIN[pos.networkId] || pos.networkId;
-  const chain = normalizeChainName(rawChain);
+  // 使用 chain 字段或 networkId，通过链注册表标准化名称
+  const chain = normalizeChainId(pos.chain || pos.networkId || 'unknown');
   
-  // 转换 assets
-  const tokens: TokenBalance[] = (pos.assets || []).map(transformAsset);
-  
-  // 如果有 rewards，也加入 tokens
-  if (pos.rewards && pos.rewards.length > 0) {
-    pos.rewards.forEach(reward => {
-      tokens.push(transformAsset(reward));
-    });
-  }
-
-  // 计算总价值 = 资产价值 + 奖励价值 - 负债价值
-  const totalAssetValue = (pos.assets || []).reduce((sum, a) => sum + (a.value || 0), 0);
-  const totalRewardValue = (pos.rewards || []).reduce((sum, r) => sum + (r.value || 0), 0);
-  const totalDebtValue = (pos.debts || []).reduce((sum, d) => sum + (d.value || 0), 0);
-  const netWorth = totalAssetValue + totalRewardValue - totalDebtValue;
+  // 转换 assets / rewards / debts，按角色区分
+  const positionType = mapCategory(pos.category);
+  const assetRole: TokenRole = positionType === 'liquidity' ? 'lp' : 'supply';
+  const tokens: TokenBalance[] = [
+    ...(pos.assets || []).map(a => transformAsset(a, assetRole)),
+    ...(pos.rewards || []).map(r => transformAsset(r, 'reward')),
+    ...(pos.debts || []).map(d => transformAsset(d, 'borrow')),
+  ];
+
+  // 净值 = 资产价值 + 奖励价值 - 负债价值
+  const valueBreakdown = summarizeTokens(tokens);
 
   return {
     id: `${pos.protocol}-${chain}-${pos.groupId || index}`,
-    protocol: {
+    protocol: normalizeProtocol('onekey', {
       id: pos.protocol || 'unknown',
       name: pos.protocolName || pos.protocol || 'Unknown',
       chain: chain,
       logo: pos.protocolLogo,
-    },
-    type: mapCategory(pos.category),
+    }, positionType === 'wallet'),
+    type: positionType,
     tokens: tokens.length > 0 ? tokens : [{
       token: {
         symbol: 'UNKNOWN',
@@ -281,32 +205,55 @@ function transformPosition(pos: OnekeyPosition, index: number): Position {
         address: '',
         decimals: 18,
       },
+      role: assetRole,
       balance: '0',
       balanceFormatted: 0,
       balanceUSD: 0,
     }],
-    totalValueUSD: netWorth,
+    totalValueUSD: valueBreakdown.netWorthUSD,
+    valueBreakdown,
     metadata: {
       category: pos.category,
-      totalValue: totalAssetValue,
-      totalDebt: totalDebtValue,
-      totalReward: totalRewardValue,
       groupId: pos.groupId,
       source: pos.source?.provider,
     },
   };
 }
 
+/**
+ * 单个网络的查询结果
+ */
+interface NetworkFetchResult {
+  positions: OnekeyPosition[];
+  status: NetworkStatus;
+}
+
 /**
  * 查询单个网络的 positions
+ * 请求失败不抛出，而是在 status 中记录失败类型，避免一条链的故障影响整体结果
  */
 async function fetchNetworkPositions(
   address: string,
   networkId: string,
-  authToken: string
-): Promise<OnekeyPosition[]> {
+  authToken: string,
+  upstream: UpstreamContext
+): Promise<NetworkFetchResult> {
+  const startedAt = Date.now();
+  const chain = normalizeChainId(networkId);
+
+  // 生成失败结果
+  const fail = (
+    status: NetworkFetchStatus,
+    detail: Pick<NetworkStatus, 'httpStatus' | 'errorCode' | 'message'>
+  ): NetworkFetchResult => ({
+    positions: [],
+    status: { networkId, chain, status, positions: 0, latencyMs: Date.now() - startedAt, ...detail },
+  });
+
+  let response: Response;
+  let responseText: string;
   try {
-    const response = await fetch(`${ONEKEY_API_BASE}/positions`, {
+    response = await upstreamFetch(upstream, `${ONEKEY_API_BASE}/positions`, {
       method: 'POST',
       headers: getHeaders(authToken),
       body: JSON.stringify({
@@ -314,52 +261,66 @@ async function fetchNetworkPositions(
         accountAddress: address,
       }),
     });
-
-    const responseText = await response.text();
-    
-    if (!response.ok) {
-      console.error(`OneKey API error for ${networkId}: ${response.status} - ${responseText.substring(0, 500)}`);
-      return [];
-    }
-
-    try {
-      const data = JSON.parse(responseText) as any;
-      
-      // 检查 API 返回的错误码
-      if (data.code !== 0 && data.code !== undefined) {
-        console.error(`OneKey API returned error code for ${networkId}: ${data.code} - ${data.message || ''}`);
-        return [];
-      }
-      
-      // OneKey API 返回格式: 
-      // { code: 0, message: "Success", data: { success: true, data: { positions: { "evm--1": [...] } } } }
-      // positions 是以 networkId 为 key 的对象
-      const positionsData = data?.data?.data?.positions || data?.data?.positions || {};
-      
-      // 获取指定网络的 positions
-      let positions: OnekeyPosition[] = [];
-      
-      if (Array.isArray(positionsData)) {
-        // 如果直接是数组
-        positions = positionsData;
-      } else if (typeof positionsData === 'object') {
-        // 如果是以 networkId 为 key 的对象
-        positions = positionsData[networkId] || [];
-      }
-      
-      if (positions.length > 0) {
-        console.log(`[OneKey] Found ${positions.length} positions on ${networkId}`);
-      }
-      
-      return positions;
-    } catch (parseError) {
-      console.error(`Failed to parse OneKey response for ${networkId}:`, parseError);
-      return [];
+    responseText = await response.text();
+  } catch (error: any) {
+    if (isTimeoutError(error)) {
+      console.warn(`[OneKey] ${networkId} timed out after ${Date.now() - startedAt}ms`);
+      return fail('timeout', { message: error.message || 'Request timed out' });
     }
-  } catch (error) {
     console.error(`Failed to fetch ${networkId}:`, error);
-    return [];
+    return fail('http_error', { message: error.message || 'Request failed' });
+  }
+
+  if (!response.ok) {
+    console.error(`OneKey API error for ${networkId}: ${response.status} - ${responseText.substring(0, 500)}`);
+    return fail('http_error', { httpStatus: response.status, message: responseText.substring(0, 200) });
+  }
+
+  let data: any;
+  try {
+    data = JSON.parse(responseText);
+  } catch (parseError: any) {
+    console.error(`Failed to parse OneKey response for ${networkId}:`, parseError);
+    return fail('parse_error', { httpStatus: response.status, message: parseError.message });
+  }
+
+  // 检查 API 返回的错误码
+  if (data.code !== 0 && data.code !== undefined) {
+    console.error(`OneKey API returned error code for ${networkId}: ${data.code} - ${data.message || ''}`);
+    return fail('api_error', { httpStatus: response.status, errorCode: data.code, message: data.message });
+  }
+
+  // OneKey API 返回格式: 
+  // { code: 0, message: "Success", data: { success: true, data: { positions: { "evm--1": [...] } } } }
+  // positions 是以 networkId 为 key 的对象
+  const positionsData = data?.data?.data?.positions || data?.data?.positions || {};
+
+  // 获取指定网络的 positions
+  let positions: OnekeyPosition[] = [];
+
+  if (Array.isArray(positionsData)) {
+    // 如果直接是数组
+    positions = positionsData;
+  } else if (typeof positionsData === 'object') {
+    // 如果是以 networkId 为 key 的对象
+    positions = positionsData[networkId] || [];
   }
+
+  if (positions.length > 0) {
+    console.log(`[OneKey] Found ${positions.length} positions on ${networkId}`);
+  }
+
+  return {
+    positions,
+    status: {
+      networkId,
+      chain,
+      status: positions.length > 0 ? 'ok' : 'empty',
+      positions: positions.length,
+      latencyMs: Date.now() - startedAt,
+      httpStatus: response.status,
+    },
+  };
 }
 
 /**
@@ -382,14 +343,14 @@ function getNetworkIdsFromChains(chains: string[]): string[] {
   const networkIds: string[] = [];
   
   for (const chain of chains) {
-    const networkId = CHAIN_TO_NETWORK_ID[chain];
-    if (networkId) {
+    const networkId = getOnekeyNetworkId(chain);
+    if (networkId && !networkIds.includes(networkId)) {
       networkIds.push(networkId);
     }
   }
   
   // 如果没有匹配的，返回主要链
-  return networkIds.length > 0 ? networkIds : PRIMARY_NETWORKS;
+  return networkIds.length > 0 ? networkIds : getPrimaryOnekeyNetworkIds();
 }
 
 /**
@@ -397,11 +358,13 @@ function getNetworkIdsFromChains(chains: string[]): string[] {
  * @param address 钱包地址
  * @param authToken OneKey Auth Token
  * @param targetChains 可选，指定要查询的链（用于与 Zerion 对齐）
+ * @param deadline 可选，截止时间（epoch ms），超时的网络标记为 timeout，返回其余网络的结果
  */
 export async function getAddressDefiData(
   address: string,
   authToken: string,
-  targetChains?: string[]
+  targetChains?: string[],
+  deadline?: number
 ): Promise<AddressDefiData> {
   const normalizedAddress = address.toLowerCase();
 
@@ -410,22 +373,31 @@ export async function getAddressDefiData(
   if (targetChains && targetChains.length > 0) {
     networksToQuery = getNetworkIdsFromChains(targetChains);
   } else {
-    networksToQuery = PRIMARY_NETWORKS;
+    networksToQuery = getPrimaryOnekeyNetworkIds();
   }
 
   console.log(`[OneKey] Querying ${networksToQuery.length} networks for ${normalizedAddress}`);
 
-  // 并行查询所有网络
+  // 并行查询所有网络（并发数由上游客户端限制）
+  const startedAt = Date.now();
+  const upstream = createUpstreamContext('onekey', deadline);
   const results = await Promise.all(
     networksToQuery.map(networkId => 
-      fetchNetworkPositions(normalizedAddress, networkId, authToken)
+      fetchNetworkPositions(normalizedAddress, networkId, authToken, upstream)
     )
   );
 
   // 合并所有 positions
-  const allOnekeyPositions = results.flat();
-  
-  console.log(`[OneKey] Found ${allOnekeyPositions.length} positions`);
+  const allOnekeyPositions = results.flatMap(r => r.positions);
+
+  // 记录每个网络的查询状态（按 networkId，多个网络可能映射到同一条链）
+  const networkStatus: Record<string, NetworkStatus> = {};
+  results.forEach(r => {
+    networkStatus[r.status.networkId] = r.status;
+  });
+
+  const failedNetworks = results.filter(r => r.status.status !== 'ok' && r.status.status !== 'empty');
+  console.log(`[OneKey] Found ${allOnekeyPositions.length} positions${failedNetworks.length > 0 ? `, ${failedNetworks.length} networks failed: ${failedNetworks.map(r => r.status.networkId).join(', ')}` : ''}`);
 
   // 转换为统一格式
   let positions = allOnekeyPositions.map((pos, index) => transformPosition(pos, index));
@@ -433,8 +405,9 @@ export async function getAddressDefiData(
   // 按法币价值倒序排序（与 Zerion 保持一致）
   positions = positions.sort((a, b) => b.totalValueUSD - a.totalValueUSD);
 
-  // 计算总值
-  const totalValueUSD = positions.reduce((sum, p) => sum + p.totalValueUSD, 0);
+  // 计算总值（负债按负值计入）
+  const breakdown = sumBreakdowns(positions);
+  const totalValueUSD = breakdown.netWorthUSD;
 
   // 提取所有涉及的链
   const chains = extractChains(positions);
@@ -442,14 +415,43 @@ export async function getAddressDefiData(
   return {
     address: normalizedAddress,
     totalValueUSD,
+    breakdown,
     positions,
     chains,
     lastUpdated: new Date().toISOString(),
     source: 'OneKey',
+    fetchMeta: {
+      durationMs: Date.now() - startedAt,
+      ...upstream.stats,
+      timedOut: results.some(r => r.status.status === 'timeout'),
+    },
+    networkStatus,
   };
 }
 
 /**
- * 导出网络映射供其他模块使用
+ * 获取单个网络的原始 Positions 数据（用于调试）
+ * 响应无法解析为 JSON 时返回截断后的原始文本
  */
-export { NETWORK_ID_TO_CHAIN, CHAIN_TO_NETWORK_ID };
+export async function getRawPositions(
+  address: string,
+  networkId: string,
+  authToken: string
+): Promise<{ status: number; data?: unknown; rawResponse?: string }> {
+  const response = await fetch(`${ONEKEY_API_BASE}/positions`, {
+    method: 'POST',
+    headers: getHeaders(authToken),
+    body: JSON.stringify({
+      networkId,
+      accountAddress: address,
+    }),
+  });
+
+  const responseText = await response.text();
+
+  try {
+    return { status: response.status, data: JSON.parse(responseText) };
+  } catch {
+    return { status: response.status, rawResponse: responseText.substring(0, 2000) };
+  }
+}
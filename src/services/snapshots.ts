@@ -0,0 +1,152 @@
+/**
+ * 对比快照存储（Workers KV）
+ * 每次对比结果都保存为快照，用于追踪某个钱包的差异在 OneKey 各版本间是变好还是变差
+ *
+ * KV key（均按 SNAPSHOT_TTL_DAYS 过期，默认 90 天）:
+ *   snapshot:<id>                                完整快照
+ *   history:<address>:<倒序时间戳>:<id>          按地址索引，metadata 为快照摘要，list 时最新的在前
+ */
+import type { CompareSnapshot, CompareSnapshotMeta, DataSourceCompareResult, Env } from '../types';
+import { processAlerts } from './alerts';
+
+const SNAPSHOT_PREFIX = 'snapshot:';
+const HISTORY_PREFIX = 'history:';
+
+// 倒序时间戳的基数，保证 key 按字典序排列时最新的在前
+const MAX_TIMESTAMP = 9_999_999_999_999;
+
+// KV metadata 上限 1024 字节，标签需截断
+const MAX_LABEL_LENGTH = 100;
+
+export const DEFAULT_SNAPSHOT_TTL_DAYS = 90;
+
+export const DEFAULT_HISTORY_LIMIT = 20;
+export const MAX_HISTORY_LIMIT = 100;
+
+/**
+ * 地址索引前缀
+ */
+function historyPrefix(address: string): string {
+  return `${HISTORY_PREFIX}${address.toLowerCase()}:`;
+}
+
+/**
+ * 地址索引 key
+ */
+function historyKey(address: string, timestamp: number, id: string): string {
+  const inverted = String(MAX_TIMESTAMP - timestamp).padStart(13, '0');
+  return `${historyPrefix(address)}${inverted}:${id}`;
+}
+
+/**
+ * 读取快照保留时间（秒）
+ */
+export function resolveSnapshotTtl(env: Env): number {
+  const days = Number(env.SNAPSHOT_TTL_DAYS);
+  return Math.round((Number.isFinite(days) && days > 0 ? days : DEFAULT_SNAPSHOT_TTL_DAYS) * 86400);
+}
+
+/**
+ * 两个数据源是否都来自结果缓存（前端刷新时重复的对比，不需要再保存快照）
+ */
+export function isCachedComparison(result: DataSourceCompareResult): boolean {
+  return Boolean(result.addressA.fetchMeta?.cache?.hit && result.addressB.fetchMeta?.cache?.hit);
+}
+
+/**
+ * 保存对比结果为快照
+ * @param kv 快照 KV
+ * @param result 对比结果
+ * @param context 数据源 id 及可选标签
+ * @param expirationTtl 快照保留时间（秒）
+ */
+export async function saveSnapshot(
+  kv: KVNamespace,
+  result: DataSourceCompareResult,
+  context: { a: string; b: string; label?: string },
+  expirationTtl = DEFAULT_SNAPSHOT_TTL_DAYS * 86400
+): Promise<CompareSnapshotMeta> {
+  const createdAt = Date.now();
+  const address = result.addressA.address.toLowerCase();
+
+  const meta: CompareSnapshotMeta = {
+    id: crypto.randomUUID(),
+    address,
+    providers: { a: context.a, b: context.b },
+    label: context.label?.slice(0, MAX_LABEL_LENGTH),
+    createdAt: new Date(createdAt).toISOString(),
+    totalA: result.addressA.totalValueUSD,
+    totalB: result.addressB.totalValueUSD,
+    totalValueDiffUSD: result.summary.totalValueDiffUSD,
+    totalValueDiffPercent: result.summary.totalValueDiffPercent,
+    changedPositions: result.summary.changedPositions,
+    thresholds: result.summary.thresholds,
+  };
+
+  const snapshot: CompareSnapshot = { ...meta, result };
+
+  await Promise.all([
+    kv.put(`${SNAPSHOT_PREFIX}${meta.id}`, JSON.stringify(snapshot), { expirationTtl }),
+    kv.put(historyKey(address, createdAt, meta.id), '', { metadata: meta, expirationTtl }),
+  ]);
+
+  console.log(`[Snapshots] Saved ${meta.id} for ${address} (${context.a} vs ${context.b})`);
+  return meta;
+}
+
+/**
+ * 记录一次对比：保存快照并检查告警规则
+ * 失败时只记录日志（用于 waitUntil，不影响对比请求本身）
+ * @returns 快照摘要，保存失败时为 undefined
+ */
+export async function recordComparison(
+  env: Env,
+  result: DataSourceCompareResult,
+  context: { a: string; b: string; label?: string }
+): Promise<CompareSnapshotMeta | undefined> {
+  let meta: CompareSnapshotMeta | undefined;
+  try {
+    meta = await saveSnapshot(env.COMPARE_KV, result, context, resolveSnapshotTtl(env));
+  } catch (error) {
+    console.error(`[Snapshots] Failed to save snapshot for ${result.addressA.address}:`, error);
+  }
+
+  try {
+    await processAlerts(env, result, { ...context, snapshotId: meta?.id });
+  } catch (error) {
+    console.error(`[Alerts] Failed to process alerts for ${result.addressA.address}:`, error);
+  }
+
+  return meta;
+}
+
+/**
+ * 获取单个快照
+ */
+export async function getSnapshot(kv: KVNamespace, id: string): Promise<CompareSnapshot | null> {
+  return kv.get<CompareSnapshot>(`${SNAPSHOT_PREFIX}${id}`, 'json');
+}
+
+/**
+ * 列出地址的历史快照摘要（最新的在前）
+ * @param cursor 上一页返回的 cursor
+ */
+export async function listSnapshots(
+  kv: KVNamespace,
+  address: string,
+  limit = DEFAULT_HISTORY_LIMIT,
+  cursor?: string
+): Promise<{ snapshots: CompareSnapshotMeta[]; cursor?: string }> {
+  const listed = await kv.list<CompareSnapshotMeta>({
+    prefix: historyPrefix(address),
+    limit: Math.min(Math.max(limit, 1), MAX_HISTORY_LIMIT),
+    cursor,
+  });
+
+  return {
+    snapshots: listed.keys
+      .map(key => key.metadata)
+      .filter((meta): meta is CompareSnapshotMeta => Boolean(meta)),
+    cursor: listed.list_complete ? undefined : listed.cursor,
+  };
+}
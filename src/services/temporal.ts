@@ -0,0 +1,105 @@
+/**
+ * 时间维度对比
+ * 对比同一数据源在两个快照中的数据，列出新开、关闭和价值变化的 position，
+ * 用于区分「OneKey 数据有误」和「钱包在两次拉取之间确实移动了资金」
+ */
+import type {
+  AddressDefiData,
+  CompareOptions,
+  CompareSnapshot,
+  DiffType,
+  TemporalChangeType,
+  TemporalDiffResult,
+  TemporalPositionChange
+} from '../types';
+import { compareDataSources } from './compare';
+
+// 跨数据源差异类型 -> 时间维度变化类型（A 为较早快照，B 为较晚快照）
+const CHANGE_TYPES: Record<DiffType, TemporalChangeType> = {
+  added: 'opened',
+  removed: 'closed',
+  changed: 'changed',
+  unchanged: 'unchanged',
+};
+
+/**
+ * 从快照中取出指定数据源的数据
+ */
+export function pickSnapshotData(snapshot: CompareSnapshot, provider: string): AddressDefiData | undefined {
+  if (snapshot.providers.a === provider) return snapshot.result.addressA;
+  if (snapshot.providers.b === provider) return snapshot.result.addressB;
+  return undefined;
+}
+
+/**
+ * 对比同一数据源两个快照之间的变化
+ * 两个快照按数据获取时间排序，较早的作为 from
+ * @param provider 数据源 id，两个快照都必须包含该数据源
+ */
+export function diffSnapshots(
+  snapshotX: CompareSnapshot,
+  snapshotY: CompareSnapshot,
+  provider: string,
+  options: CompareOptions = {}
+): TemporalDiffResult {
+  const dataX = pickSnapshotData(snapshotX, provider);
+  const dataY = pickSnapshotData(snapshotY, provider);
+
+  if (!dataX || !dataY) {
+    throw new Error(`Snapshot ${dataX ? snapshotY.id : snapshotX.id} does not contain provider ${provider}`);
+  }
+
+  if (dataX.address.toLowerCase() !== dataY.address.toLowerCase()) {
+    throw new Error(`Snapshots belong to different addresses: ${dataX.address} / ${dataY.address}`);
+  }
+
+  // 较早的快照作为基准
+  const [from, to] = Date.parse(dataX.lastUpdated) <= Date.parse(dataY.lastUpdated)
+    ? [{ snapshot: snapshotX, data: dataX }, { snapshot: snapshotY, data: dataY }]
+    : [{ snapshot: snapshotY, data: dataY }, { snapshot: snapshotX, data: dataX }];
+
+  // 复用跨数据源的匹配和差异逻辑
+  const result = compareDataSources(from.data, to.data, options);
+
+  const changes: TemporalPositionChange[] = result.positionDiffs.map(diff => ({
+    protocol: diff.protocol,
+    chain: diff.chain,
+    type: diff.type,
+    change: CHANGE_TYPES[diff.diffType],
+    positionBefore: diff.positionA,
+    positionAfter: diff.positionB,
+    valueChangeUSD: diff.valueDiffUSD,
+    valueChangePercent: diff.valueDiffPercent,
+    breakdownChange: diff.breakdownDiff,
+    tokenDiffs: diff.tokenDiffs,
+    rootCause: diff.rootCause,
+  }));
+
+  return {
+    address: from.data.address,
+    provider,
+    from: {
+      snapshotId: from.snapshot.id,
+      fetchedAt: from.data.lastUpdated,
+      totalValueUSD: from.data.totalValueUSD,
+    },
+    to: {
+      snapshotId: to.snapshot.id,
+      fetchedAt: to.data.lastUpdated,
+      totalValueUSD: to.data.totalValueUSD,
+    },
+    elapsedMs: Date.parse(to.data.lastUpdated) - Date.parse(from.data.lastUpdated),
+    summary: {
+      opened: result.summary.positionsOnlyInB,
+      closed: result.summary.positionsOnlyInA,
+      changed: result.summary.changedPositions,
+      unchanged: result.summary.commonPositions,
+      ignored: result.summary.ignoredPositions,
+      totalValueChangeUSD: result.summary.totalValueDiffUSD,
+      totalValueChangePercent: result.summary.totalValueDiffPercent,
+      breakdownChange: result.summary.breakdownDiff,
+      thresholds: result.summary.thresholds,
+    },
+    changes,
+  };
+}
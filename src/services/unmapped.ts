@@ -0,0 +1,67 @@
+/**
+ * 未映射协议存储（Workers KV，与对比快照共用 COMPARE_KV）
+ * 数据源归一化时先记录在 isolate 内存中，每次上游拉取结束后合并写入 KV，
+ * 跨 isolate、重新部署后仍然保留。多个请求同时合并时出现次数可能少算，仅供维护注册表参考
+ *
+ * KV key:
+ *   protocols:unmapped    UnmappedProtocol[]，最多 MAX_UNMAPPED_PROTOCOLS 条，超出时丢弃最久未出现的
+ */
+import { drainUnmappedProtocols, type UnmappedProtocol } from '../registry/protocols';
+
+const UNMAPPED_KEY = 'protocols:unmapped';
+
+// 最多保留的未映射协议数
+export const MAX_UNMAPPED_PROTOCOLS = 200;
+
+/**
+ * 未映射协议的唯一标识（数据源 + 原始 id）
+ */
+function unmappedId(protocol: UnmappedProtocol): string {
+  return `${protocol.source}:${protocol.rawId.toLowerCase()}`;
+}
+
+/**
+ * 合并同一协议的两条记录
+ */
+function mergeUnmapped(existing: UnmappedProtocol, incoming: UnmappedProtocol): UnmappedProtocol {
+  return {
+    ...existing,
+    rawName: incoming.rawName || existing.rawName,
+    chains: Array.from(new Set([...existing.chains, ...incoming.chains])),
+    occurrences: existing.occurrences + incoming.occurrences,
+    firstSeen: existing.firstSeen < incoming.firstSeen ? existing.firstSeen : incoming.firstSeen,
+    lastSeen: existing.lastSeen > incoming.lastSeen ? existing.lastSeen : incoming.lastSeen,
+  };
+}
+
+/**
+ * 列出已见到但未映射的协议，按出现次数倒序
+ */
+export async function listUnmappedProtocols(kv: KVNamespace): Promise<UnmappedProtocol[]> {
+  const stored = await kv.get<UnmappedProtocol[]>(UNMAPPED_KEY, 'json');
+  return (stored || []).sort((a, b) => b.occurrences - a.occurrences);
+}
+
+/**
+ * 将内存中新记录的未映射协议合并写入 KV
+ * 没有新记录时不访问 KV；写入失败只记录日志，不影响对比请求
+ */
+export async function persistUnmappedProtocols(kv: KVNamespace): Promise<void> {
+  const pending = drainUnmappedProtocols();
+  if (pending.length === 0) return;
+
+  try {
+    const merged = new Map((await listUnmappedProtocols(kv)).map(p => [unmappedId(p), p]));
+    for (const entry of pending) {
+      const existing = merged.get(unmappedId(entry));
+      merged.set(unmappedId(entry), existing ? mergeUnmapped(existing, entry) : entry);
+    }
+
+    const bounded = Array.from(merged.values())
+      .sort((a, b) => b.lastSeen.localeCompare(a.lastSeen))
+      .slice(0, MAX_UNMAPPED_PROTOCOLS);
+    await kv.put(UNMAPPED_KEY, JSON.stringify(bounded));
+  } catch (error) {
+    console.error('[Unmapped] Failed to persist unmapped protocols:', error);
+  }
+}
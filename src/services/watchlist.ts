@@ -0,0 +1,66 @@
+/**
+ * 监控列表存储（Workers KV，与对比快照共用 COMPARE_KV）
+ *
+ * KV key:
+ *   watchlist:<address>    监控的钱包，metadata 同为 WatchlistEntry，list 时无需逐个读取
+ *   health:latest          最近一次定时监控的健康报告
+ */
+import type { HealthReport, WatchlistEntry } from '../types';
+
+const WATCHLIST_PREFIX = 'watchlist:';
+const LATEST_HEALTH_KEY = 'health:latest';
+
+// 监控列表最多的钱包数（每次定时任务都会全部对比，由 WatchlistMonitor 每次 alarm 处理 3 个）
+export const MAX_WATCHLIST_SIZE = 100;
+
+/**
+ * 监控列表 key
+ */
+function watchlistKey(address: string): string {
+  return `${WATCHLIST_PREFIX}${address.toLowerCase()}`;
+}
+
+/**
+ * 列出监控列表
+ */
+export async function listWatchlist(kv: KVNamespace): Promise<WatchlistEntry[]> {
+  const listed = await kv.list<WatchlistEntry>({ prefix: WATCHLIST_PREFIX, limit: MAX_WATCHLIST_SIZE });
+  return listed.keys
+    .map(key => key.metadata)
+    .filter((entry): entry is WatchlistEntry => Boolean(entry));
+}
+
+/**
+ * 获取监控列表中的单个钱包
+ */
+export async function getWatchlistEntry(kv: KVNamespace, address: string): Promise<WatchlistEntry | null> {
+  return kv.get<WatchlistEntry>(watchlistKey(address), 'json');
+}
+
+/**
+ * 新增或更新监控的钱包
+ */
+export async function putWatchlistEntry(kv: KVNamespace, entry: WatchlistEntry): Promise<void> {
+  await kv.put(watchlistKey(entry.address), JSON.stringify(entry), { metadata: entry });
+}
+
+/**
+ * 从监控列表中移除钱包
+ */
+export async function deleteWatchlistEntry(kv: KVNamespace, address: string): Promise<void> {
+  await kv.delete(watchlistKey(address));
+}
+
+/**
+ * 保存最近一次健康报告
+ */
+export async function saveHealthReport(kv: KVNamespace, report: HealthReport): Promise<void> {
+  await kv.put(LATEST_HEALTH_KEY, JSON.stringify(report));
+}
+
+/**
+ * 获取最近一次健康报告
+ */
+export async function getLatestHealthReport(kv: KVNamespace): Promise<HealthReport | null> {
+  return kv.get<HealthReport>(LATEST_HEALTH_KEY, 'json');
+}
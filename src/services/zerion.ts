@@ -1,7 +1,11 @@
 /**
  * Zerion API 服务
  */
-import type { AddressDefiData, Position, TokenBalance, PositionType } from '../types';
+import type { AddressDefiData, Position, TokenBalance, PositionType, Protocol, TokenRole } from '../types';
+import { summarizeTokens, sumBreakdowns } from '../utils/position';
+import { normalizeProtocol } from '../registry/protocols';
+import { normalizeChainId, resolveChain } from '../registry/chains';
+import { createUpstreamContext, upstreamFetch, isTimeoutError, type UpstreamContext } from '../utils/http';
 
 const ZERION_API_BASE = 'https://api.zerion.io/v1';
 
@@ -34,13 +38,43 @@ function mapPositionType(zerionType: string): PositionType {
   return typeMap[zerionType] || 'other';
 }
 
+// 合并后 position 类型的判定优先级（按 Zerion position_type）
+// 例如 deposit + loan + reward 的借贷市场应归为 lending
+const GROUP_TYPE_PRIORITY = ['liquidity', 'deposit', 'staked', 'locked', 'farming', 'loan', 'reward', 'claimable', 'wallet'];
+
 /**
- * 获取 Portfolio 总值
+ * 映射 Zerion position type 到 token 角色
  */
-async function fetchPortfolio(address: string, apiKey: string): Promise<{ totalValueUSD: number }> {
-  const response = await fetch(`${ZERION_API_BASE}/wallets/${address}/portfolio`, {
-    headers: getHeaders(apiKey),
-  });
+function mapTokenRole(zerionType: string): TokenRole {
+  const roleMap: Record<string, TokenRole> = {
+    'loan': 'borrow',
+    'reward': 'reward',
+    'claimable': 'reward',
+    'liquidity': 'lp',
+  };
+  return roleMap[zerionType] || 'supply';
+}
+
+// 合并后 token 的排列顺序：资产 -> 奖励 -> 负债（与 OneKey 一致）
+const ROLE_ORDER: Record<TokenRole, number> = { supply: 0, lp: 0, reward: 1, borrow: 2 };
+
+/**
+ * 获取 Portfolio 总值（仅用于日志对照，超时返回 null）
+ */
+async function fetchPortfolio(
+  address: string,
+  apiKey: string,
+  upstream: UpstreamContext
+): Promise<{ totalValueUSD: number } | null> {
+  let response: Response;
+  try {
+    response = await upstreamFetch(upstream, `${ZERION_API_BASE}/wallets/${address}/portfolio`, {
+      headers: getHeaders(apiKey),
+    });
+  } catch (error) {
+    if (isTimeoutError(error)) return null;
+    throw error;
+  }
 
   if (!response.ok) {
     const errorText = await response.text();
@@ -53,72 +87,201 @@ async function fetchPortfolio(address: string, apiKey: string): Promise<{ totalV
   };
 }
 
+/**
+ * Zerion 单行数据（每个 position 的每个 token 一行）
+ */
+interface ZerionRow {
+  id: string;
+  groupKey: string;
+  chain: string;
+  protocol: Protocol;
+  rawType: string;
+  name?: string;
+  groupId?: string;
+  poolAddress?: string;
+  tokenBalance: TokenBalance;
+}
+
+/**
+ * 转换单条 Zerion position 行
+ */
+function transformRow(item: any, index: number): ZerionRow {
+  const attrs = item.attributes || {};
+  const relationships = item.relationships || {};
+  const appMeta = attrs.application_metadata || {};
+
+  // 获取 chain 信息
+  const chain = normalizeChainId(relationships.chain?.data?.id || attrs.chain || 'unknown');
+
+  // Protocol 信息（优先使用 dapp 关系 id，其次 application_metadata）
+  const protocolId = relationships.dapp?.data?.id || relationships.protocol?.data?.id || attrs.protocol;
+  const protocol: Protocol = normalizeProtocol('zerion', {
+    id: protocolId || `wallet-${chain}`,
+    name: appMeta.name || attrs.protocol || 'Wallet',
+    chain: chain,
+    logo: appMeta.icon?.url || attrs.protocol_info?.logo?.url,
+  }, !protocolId);
+
+  // Token 信息
+  const fungibleInfo = attrs.fungible_info || {};
+  const implementation = fungibleInfo.implementations?.find((impl: any) => resolveChain(impl.chain_id)?.id === chain)
+    || fungibleInfo.implementations?.[0]
+    || {};
+
+  const token = {
+    symbol: fungibleInfo.symbol || 'UNKNOWN',
+    name: fungibleInfo.name || 'Unknown Token',
+    address: implementation.address || '',
+    decimals: implementation.decimals || 18,
+    price: attrs.price,
+    logo: fungibleInfo.icon?.url,
+  };
+
+  const tokenBalance: TokenBalance = {
+    token,
+    role: mapTokenRole(attrs.position_type),
+    balance: attrs.quantity?.numeric || '0',
+    balanceFormatted: attrs.quantity?.float || 0,
+    balanceUSD: attrs.value || 0,
+  };
+
+  const id = item.id || `${protocol.id}-${token.symbol}-${index}`;
+
+  // 分组 key：同一协议 / 链下按 group_id > pool_address > position name 归并
+  // 没有协议的钱包代币不做合并
+  const groupPart = protocolId
+    ? (attrs.group_id || attrs.pool_address || attrs.name || id)
+    : id;
+
+  return {
+    id,
+    groupKey: `${chain}:${protocol.id}:${groupPart}`.toLowerCase(),
+    chain,
+    protocol,
+    rawType: attrs.position_type || 'unknown',
+    name: attrs.name,
+    groupId: attrs.group_id,
+    poolAddress: attrs.pool_address,
+    tokenBalance,
+  };
+}
+
+/**
+ * 将同一协议 / 链 / 池子的多行合并为一个 Position
+ * 金额按 token 角色汇总，与 OneKey transformPosition 口径一致
+ */
+function groupRows(rows: ZerionRow[]): Position[] {
+  const groups = new Map<string, ZerionRow[]>();
+  rows.forEach(row => {
+    if (!groups.has(row.groupKey)) {
+      groups.set(row.groupKey, []);
+    }
+    groups.get(row.groupKey)!.push(row);
+  });
+
+  const positions: Position[] = [];
+
+  for (const groupRowList of groups.values()) {
+    const first = groupRowList[0];
+    const rawTypes = Array.from(new Set(groupRowList.map(r => r.rawType)));
+
+    const tokens = groupRowList
+      .map(r => r.tokenBalance)
+      .sort((a, b) => ROLE_ORDER[a.role] - ROLE_ORDER[b.role]);
+    const valueBreakdown = summarizeTokens(tokens);
+
+    const primaryType = GROUP_TYPE_PRIORITY.find(t => rawTypes.includes(t)) || first.rawType;
+
+    positions.push({
+      id: groupRowList.length > 1 ? first.groupKey : first.id,
+      protocol: first.protocol,
+      type: mapPositionType(primaryType),
+      tokens,
+      totalValueUSD: valueBreakdown.netWorthUSD,
+      valueBreakdown,
+      metadata: {
+        rawType: primaryType,
+        rawTypes,
+        name: first.name,
+        groupId: first.groupId,
+        poolAddress: first.poolAddress,
+        rowIds: groupRowList.map(r => r.id),
+      },
+    });
+  }
+
+  // 按法币价值倒序排序
+  return positions.sort((a, b) => b.totalValueUSD - a.totalValueUSD);
+}
+
+/**
+ * 分页拉取结果
+ */
+interface FetchPositionsResult {
+  rows: ZerionRow[];
+  pages: number;
+  truncated: boolean;
+  timedOut: boolean;
+}
+
 /**
  * 获取 DeFi Positions（仅复杂仓位，排除钱包代币）
  * 使用 filter[positions]=only_complex 参数
+ * 沿着 links.next 翻页，直到没有下一页或达到 maxPages 上限
+ * 已拉取到部分分页后超时，返回已有结果并标记 timedOut；第一页就超时则抛出
  */
-async function fetchPositions(address: string, apiKey: string, onlyComplex: boolean = true): Promise<Position[]> {
+async function fetchPositions(
+  address: string,
+  apiKey: string,
+  onlyComplex: boolean,
+  pageSize: number,
+  maxPages: number,
+  upstream: UpstreamContext
+): Promise<FetchPositionsResult> {
   // 根据参数决定是否过滤
   const filterParam = onlyComplex ? '&filter[positions]=only_complex' : '';
-  const response = await fetch(
-    `${ZERION_API_BASE}/wallets/${address}/positions?currency=usd&sort=value${filterParam}`,
-    { headers: getHeaders(apiKey) }
-  );
+  let nextUrl: string | undefined =
+    `${ZERION_API_BASE}/wallets/${address}/positions?currency=usd&sort=value&page[size]=${pageSize}${filterParam}`;
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Zerion positions API error: ${response.status} - ${errorText}`);
+  const rows: ZerionRow[] = [];
+  let pages = 0;
+  let timedOut = false;
+
+  while (nextUrl && pages < maxPages) {
+    let data: any;
+    try {
+      const response = await upstreamFetch(upstream, nextUrl, { headers: getHeaders(apiKey) });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Zerion positions API error: ${response.status} - ${errorText}`);
+      }
+
+      data = await response.json();
+    } catch (error) {
+      if (!isTimeoutError(error) || pages === 0) throw error;
+      console.warn(`[Zerion] Timed out after ${pages} pages for ${address}, returning partial results`);
+      timedOut = true;
+      break;
+    }
+
+    const rawPositions: any[] = data?.data || [];
+    pages++;
+
+    rawPositions.forEach(item => {
+      rows.push(transformRow(item, rows.length));
+    });
+
+    nextUrl = data?.links?.next || undefined;
   }
 
-  const data = await response.json() as any;
-  const rawPositions = data?.data || [];
-
-  return rawPositions.map((item: any, index: number) => {
-    const attrs = item.attributes || {};
-    const relationships = item.relationships || {};
-
-    // 获取 chain 信息
-    const chain = relationships.chain?.data?.id || attrs.chain || 'unknown';
-
-    // Protocol 信息
-    const protocol = {
-      id: relationships.protocol?.data?.id || attrs.protocol || `wallet-${chain}`,
-      name: attrs.protocol || 'Wallet',
-      chain: chain,
-      logo: attrs.protocol_info?.logo?.url,
-    };
-
-    // Token 信息
-    const fungibleInfo = attrs.fungible_info || {};
-    const implementation = fungibleInfo.implementations?.[0] || {};
-
-    const token = {
-      symbol: fungibleInfo.symbol || 'UNKNOWN',
-      name: fungibleInfo.name || 'Unknown Token',
-      address: implementation.address || '',
-      decimals: implementation.decimals || 18,
-      price: attrs.price,
-      logo: fungibleInfo.icon?.url,
-    };
-
-    const tokenBalance: TokenBalance = {
-      token,
-      balance: attrs.quantity?.numeric || '0',
-      balanceFormatted: attrs.quantity?.float || 0,
-      balanceUSD: attrs.value || 0,
-    };
-
-    return {
-      id: item.id || `${protocol.id}-${token.symbol}-${index}`,
-      protocol,
-      type: mapPositionType(attrs.position_type),
-      tokens: [tokenBalance],
-      totalValueUSD: attrs.value || 0,
-      metadata: {
-        rawType: attrs.position_type,
-      },
-    } as Position;
-  });
+  // 还有下一页但已达到上限（或超时），说明结果被截断
+  const truncated = Boolean(nextUrl);
+  if (truncated && !timedOut) {
+    console.warn(`[Zerion] Pagination capped at ${maxPages} pages for ${address}, results truncated`);
+  }
+
+  return { rows, pages, truncated, timedOut };
 }
 
 /**
@@ -134,39 +297,73 @@ function extractChains(positions: Position[]): string[] {
   return Array.from(chains).sort();
 }
 
+/**
+ * Zerion 数据获取选项
+ */
+export interface ZerionFetchOptions {
+  onlyComplex?: boolean;  // 是否只获取 DeFi 仓位（排除钱包代币），默认 true
+  pageSize?: number;      // 每页条数，默认 100（Zerion 上限）
+  maxPages?: number;      // 最多翻页数，默认 20
+  deadline?: number;      // 截止时间（epoch ms）
+}
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 100;
+export const DEFAULT_MAX_PAGES = 20;
+
 /**
  * 获取地址的完整 DeFi 数据
  * @param address 钱包地址
  * @param apiKey Zerion API Key
- * @param onlyComplex 是否只获取 DeFi 仓位（排除钱包代币），默认 true
+ * @param options 获取选项（仓位过滤、分页大小、分页上限、截止时间）
  */
 export async function getAddressDefiData(
   address: string, 
   apiKey: string,
-  onlyComplex: boolean = true
+  options: ZerionFetchOptions = {}
 ): Promise<AddressDefiData> {
   const normalizedAddress = address.toLowerCase();
+  const onlyComplex = options.onlyComplex ?? true;
+  const pageSize = Math.min(Math.max(options.pageSize || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const maxPages = Math.max(options.maxPages || DEFAULT_MAX_PAGES, 1);
+  const startedAt = Date.now();
+  const upstream = createUpstreamContext('zerion', options.deadline);
 
-  const [portfolio, positions] = await Promise.all([
-    fetchPortfolio(normalizedAddress, apiKey),
-    fetchPositions(normalizedAddress, apiKey, onlyComplex),
+  const [portfolio, fetched] = await Promise.all([
+    fetchPortfolio(normalizedAddress, apiKey, upstream),
+    fetchPositions(normalizedAddress, apiKey, onlyComplex, pageSize, maxPages, upstream),
   ]);
 
+  // 将逐 token 的行合并为协议级 position
+  const positions = groupRows(fetched.rows);
+
   // 提取所有涉及的链
   const chains = extractChains(positions);
 
   // 对于 only_complex，重新计算总值（因为 portfolio 包含所有资产）
-  const calculatedTotalValue = positions.reduce((sum, p) => sum + p.totalValueUSD, 0);
+  // 负债按负值计入，与 OneKey 口径一致
+  const breakdown = sumBreakdowns(positions);
+  const calculatedTotalValue = breakdown.netWorthUSD;
 
-  console.log(`[Zerion] Found ${positions.length} ${onlyComplex ? 'DeFi' : 'all'} positions, total value: $${calculatedTotalValue.toFixed(2)}`);
+  console.log(`[Zerion] Found ${positions.length} ${onlyComplex ? 'DeFi' : 'all'} positions (${fetched.rows.length} rows) in ${fetched.pages} pages, total value: $${calculatedTotalValue.toFixed(2)} (portfolio: ${portfolio ? `$${portfolio.totalValueUSD.toFixed(2)}` : 'n/a'})`);
 
   return {
     address: normalizedAddress,
     totalValueUSD: calculatedTotalValue,  // 使用计算后的总值
+    breakdown,
     positions,
     chains,
     lastUpdated: new Date().toISOString(),
     source: 'Zerion',
+    fetchMeta: {
+      pages: fetched.pages,
+      pageSize,
+      maxPages,
+      truncated: fetched.truncated,
+      durationMs: Date.now() - startedAt,
+      ...upstream.stats,
+      timedOut: fetched.timedOut,
+    },
   };
 }
 
@@ -1,9 +1,22 @@
+import type { CompareJob } from './durable/compare-job';
+import type { WatchlistMonitor } from './durable/watchlist-monitor';
+
 /**
  * Cloudflare Worker 环境变量类型
  */
 export interface Env {
   ZERION_API_KEY: string;
   ONEKEY_AUTH_TOKEN: string;
+  DEBANK_ACCESS_KEY: string;
+  COMPARE_JOBS: DurableObjectNamespace<CompareJob>;  // 异步对比任务
+  WATCHLIST_MONITOR: DurableObjectNamespace<WatchlistMonitor>;  // 监控列表定时对比
+  COMPARE_KV: KVNamespace;                           // 对比快照
+  ALERT_WEBHOOK_URLS?: string;     // 告警 webhook，逗号分隔（Slack / Lark 自动识别）
+  ALERT_RULES?: string;            // 告警规则 JSON，覆盖默认规则
+  ALERT_DEDUP_TTL_HOURS?: string;  // 相同告警的静默时间，默认 24 小时
+  PUBLIC_BASE_URL?: string;        // 告警中快照链接的域名
+  CACHE_TTL_SECONDS?: string;      // 数据源结果缓存时间，默认 300 秒，0 关闭缓存
+  SNAPSHOT_TTL_DAYS?: string;      // 对比快照保留天数，默认 90 天
 }
 
 /**
@@ -18,11 +31,22 @@ export interface Token {
   logo?: string;
 }
 
+/**
+ * Token 在 position 中的角色
+ * - supply: 存入 / 质押的资产
+ * - borrow: 借出的负债（按负值计入 netWorth）
+ * - reward: 待领取奖励
+ * - lp: LP 池子中的成分 token
+ */
+export type TokenRole = 'supply' | 'borrow' | 'reward' | 'lp';
+
 /**
  * Token 余额信息
+ * balanceUSD 始终为正数，方向由 role 决定
  */
 export interface TokenBalance {
   token: Token;
+  role: TokenRole;
   balance: string;
   balanceFormatted: number;
   balanceUSD: number;
@@ -32,10 +56,11 @@ export interface TokenBalance {
  * 协议信息
  */
 export interface Protocol {
-  id: string;
+  id: string;       // canonical id（见 registry/protocols）
   name: string;
   chain: string;
   logo?: string;
+  rawId?: string;   // 数据源返回的原始协议 id
 }
 
 /**
@@ -50,6 +75,17 @@ export type PositionType =
   | 'wallet'
   | 'other';
 
+/**
+ * Position 金额拆分
+ * netWorthUSD = assetsUSD + rewardsUSD - debtUSD
+ */
+export interface PositionValueBreakdown {
+  assetsUSD: number;   // 资产总值（supply + lp）
+  debtUSD: number;     // 负债总值（正数）
+  rewardsUSD: number;  // 奖励总值
+  netWorthUSD: number; // 净值
+}
+
 /**
  * 单个 DeFi Position
  */
@@ -58,22 +94,86 @@ export interface Position {
   protocol: Protocol;
   type: PositionType;
   tokens: TokenBalance[];
-  totalValueUSD: number;
+  totalValueUSD: number;  // 净值，等于 valueBreakdown.netWorthUSD
+  valueBreakdown: PositionValueBreakdown;
   apy?: number;
   healthFactor?: number;
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * 数据抓取元信息（分页、耗时等）
+ */
+export interface FetchMeta {
+  pages?: number;       // 实际拉取的分页数
+  pageSize?: number;    // 每页条数
+  maxPages?: number;    // 分页上限
+  truncated?: boolean;  // 是否因达到分页上限而截断
+  durationMs: number;   // 抓取耗时（毫秒）
+  requests?: number;    // 实际发出的上游请求数（含重试）
+  retries?: number;     // 因 429 / 5xx / 网络错误重试的次数
+  rateLimited?: number; // 收到 429 的次数
+  timedOut?: boolean;   // 是否因超时返回了部分结果
+  coalesced?: boolean;  // 是否与同时进行的相同请求共用了一次上游拉取
+  cache?: CacheInfo;    // 缓存状态（关闭缓存时不返回）
+}
+
+/**
+ * 数据源结果的缓存状态
+ */
+export interface CacheInfo {
+  hit: boolean;         // 是否命中缓存
+  stored: boolean;      // 是否已写入缓存（部分结果不缓存）
+  cachedAt?: string;    // 写入缓存的时间（即数据获取时间）
+  ageSeconds: number;   // 缓存已存在的秒数
+  ttlSeconds: number;   // 缓存有效期
+}
+
 /**
  * 地址 DeFi 数据
  */
 export interface AddressDefiData {
   address: string;
-  totalValueUSD: number;
+  totalValueUSD: number;  // 所有 position 净值之和
+  breakdown: PositionValueBreakdown;
   positions: Position[];
   chains: string[];  // 所有涉及的链
   lastUpdated: string;
   source: string;
+  fetchMeta?: FetchMeta;
+  networkStatus?: Record<string, NetworkStatus>;  // 按 networkId 的查询状态（按网络查询的数据源）
+}
+
+/**
+ * 单个网络的查询状态
+ * ok: 成功且有数据 / empty: 成功但无数据 / http_error: HTTP 非 2xx 或请求异常
+ * api_error: 返回非 0 code / parse_error: 响应无法解析 / timeout: 超时或超过总时间预算
+ */
+export type NetworkFetchStatus = 'ok' | 'empty' | 'http_error' | 'api_error' | 'parse_error' | 'timeout';
+
+/**
+ * 单个网络的查询结果
+ */
+export interface NetworkStatus {
+  networkId: string;
+  chain: string;
+  status: NetworkFetchStatus;
+  positions: number;
+  latencyMs: number;
+  httpStatus?: number;
+  errorCode?: number | string;
+  message?: string;
+}
+
+/**
+ * 查询失败的链（某个数据源在该链上的请求失败）
+ */
+export interface FailedChain {
+  chain: string;
+  networkId?: string;  // 失败的网络（同一条链可能对应多个网络）
+  source: string;      // AddressDefiData.source
+  status: NetworkFetchStatus;
+  message?: string;
 }
 
 /**
@@ -81,6 +181,83 @@ export interface AddressDefiData {
  */
 export type DiffType = 'added' | 'removed' | 'changed' | 'unchanged';
 
+/**
+ * 匹配层级
+ * - address: protocol + chain + token 合约地址
+ * - exact_symbol: protocol + chain + type + token symbol
+ * - loose: protocol + chain + 主要 token symbol
+ * - protocol: 仅 protocol + chain
+ */
+export type MatchTier = 'address' | 'exact_symbol' | 'loose' | 'protocol';
+
+/**
+ * 匹配模式
+ * - address: 优先按合约地址匹配，symbol 兜底（默认）
+ * - symbol: 仅按 symbol 匹配
+ */
+export type MatchMode = 'address' | 'symbol';
+
+/**
+ * 差异判定阈值
+ */
+export interface CompareThresholds {
+  relativePercent: number;       // 相对差异超过该百分比视为 changed（默认 1）
+  absoluteUSD: number | null;    // 绝对差异超过该金额视为 changed，null 表示不启用
+  minPositionValueUSD: number;   // 两边净值绝对值都低于该值的 position 不参与对比
+  dustUSD: number;               // 差异绝对值低于该金额时始终视为 unchanged
+  priceDiffPercent: number;      // 同一 token 两边价格差异超过该百分比时标记
+}
+
+/**
+ * 对比选项
+ */
+export interface CompareOptions {
+  matchMode?: MatchMode;
+  thresholds?: Partial<CompareThresholds>;
+  failedChainPolicy?: FailedChainPolicy;
+}
+
+/**
+ * 数据源在某条链上请求失败时的处理方式
+ * flag: 照常对比，差异标记为 unreliable（默认）/ exclude: 该链上两边的 position 都不参与对比
+ */
+export type FailedChainPolicy = 'flag' | 'exclude';
+
+/**
+ * Token 差异状态
+ * - matched: 两边都有
+ * - missing: 只在 A 中存在（B 缺少该 token）
+ * - extra: 只在 B 中存在（B 多出该 token）
+ */
+export type TokenDiffStatus = 'matched' | 'missing' | 'extra';
+
+/**
+ * 差异根因
+ */
+export type DiffRootCause = 'none' | 'price_mismatch' | 'quantity_mismatch' | 'missing_token' | 'extra_token';
+
+/**
+ * 已匹配 position 内的单个 token 差异
+ * 价值按带符号口径计算（borrow 为负），各 token 的 valueDiffUSD 之和等于 position 净值差异
+ */
+export interface TokenDiff {
+  symbol: string;
+  address: string;
+  role: TokenRole;
+  status: TokenDiffStatus;
+  balanceA?: number;
+  balanceB?: number;
+  balanceDiff: number;
+  priceA?: number;
+  priceB?: number;
+  priceDiff?: number;
+  priceDiffPercent?: number;
+  valueA: number;
+  valueB: number;
+  valueDiffUSD: number;
+  rootCause: DiffRootCause;
+}
+
 /**
  * Position 差异详情
  */
@@ -93,6 +270,12 @@ export interface PositionDiff {
   positionB?: Position;
   valueDiffUSD?: number;
   valueDiffPercent?: number;
+  breakdownDiff?: PositionValueBreakdown;  // B - A 的资产 / 负债 / 奖励 / 净值差异
+  matchTier?: MatchTier;  // 产生该配对的匹配层级（仅两边都存在时）
+  matchScore?: number;    // 配对得分（0 ~ 1，仅两边都存在时）
+  tokenDiffs?: TokenDiff[];  // token 级差异（仅两边都存在时）
+  rootCause?: DiffRootCause; // 差异主要来源（仅两边都存在时）
+  unreliable?: boolean;      // 所在链有数据源请求失败，差异可能不是数据错误
 }
 
 /**
@@ -105,6 +288,85 @@ export interface CompareSummary {
   positionsOnlyInB: number;
   commonPositions: number;
   changedPositions: number;
+  ignoredPositions: number;  // 低于 minPositionValueUSD 而未参与对比的 position 数
+  failedChains: FailedChain[];   // 有数据源请求失败的链
+  unreliablePositions: number;   // 位于失败链上、被标记为 unreliable 的差异数（flag 模式）
+  excludedPositions: number;     // 位于失败链上、未参与对比的 position 数（exclude 模式）
+  breakdownDiff: PositionValueBreakdown;  // B - A 的资产 / 负债 / 奖励 / 净值差异
+  thresholds: CompareThresholds;  // 实际生效的阈值
+}
+
+/**
+ * 各差异类型的 position 数量
+ */
+export type DiffTypeCounts = Record<DiffType, number>;
+
+/**
+ * 协议级聚合（按 protocol + chain）
+ */
+export interface ProtocolAggregate {
+  protocolId: string;
+  protocol: string;
+  chain: string;
+  totalA: number;
+  totalB: number;
+  diff: number;          // totalB - totalA
+  diffPercent: number;
+  positionCounts: DiffTypeCounts;
+}
+
+/**
+ * 链级聚合
+ */
+export interface ChainAggregate {
+  chain: string;
+  totalA: number;
+  totalB: number;
+  diff: number;          // totalB - totalA
+  diffPercent: number;
+  protocolCount: number;
+  positionCounts: DiffTypeCounts;
+}
+
+/**
+ * 聚合排序方式
+ * - absDiff: 按差异金额绝对值倒序（默认）
+ * - diffPercent: 按差异百分比绝对值倒序
+ */
+export type AggregateSort = 'absDiff' | 'diffPercent';
+
+/**
+ * 单个 token 在两个数据源中的价格对比
+ */
+export interface TokenPriceComparison {
+  chain: string;
+  symbol: string;
+  address: string;
+  priceA?: number;
+  priceB?: number;
+  priceDiff?: number;
+  priceDiffPercent?: number;
+  flagged: boolean;   // 价格差异超过 priceDiffPercent
+}
+
+/**
+ * 总差异归因
+ * priceUSD + quantityUSD + unmatchedPositionsUSD + otherUSD = summary.totalValueDiffUSD
+ */
+export interface DiffAttribution {
+  priceUSD: number;              // 已匹配 token 仅由价格差异带来的金额
+  quantityUSD: number;           // 已匹配 position 内由数量差异（含缺失 / 多出 token）带来的金额
+  unmatchedPositionsUSD: number; // 只在一边存在的 position 带来的金额
+  otherUSD: number;              // 其余（如低于最小价值被忽略的 position）
+}
+
+/**
+ * 价格差异分析
+ */
+export interface PriceAnalysis {
+  tokens: TokenPriceComparison[];  // 按价格差异百分比绝对值倒序
+  flaggedCount: number;
+  attribution: DiffAttribution;
 }
 
 /**
@@ -115,6 +377,366 @@ export interface DataSourceCompareResult {
   addressB: AddressDefiData;  // 数据源 B（OneKey）
   summary: CompareSummary;
   positionDiffs: PositionDiff[];
+  priceAnalysis: PriceAnalysis;
+}
+
+/**
+ * 多数据源对比中，某个数据源对一个对齐 position 的取值
+ */
+export interface AlignedSourceValue {
+  present: boolean;
+  valueUSD: number;         // 缺失时为 0
+  deviationUSD: number;     // 相对共识值的差异
+  deviationPercent: number;
+  positionId?: string;
+}
+
+/**
+ * 多数据源对齐后的单个 position
+ */
+export interface AlignedPosition {
+  protocolId: string;
+  protocol: string;
+  chain: string;
+  type: PositionType;
+  sources: Record<string, AlignedSourceValue>;  // key 为数据源 id
+  presentIn: string[];
+  missingIn: string[];
+  consensusValueUSD: number;  // 各数据源取值的中位数（缺失按 0 计）
+  outlierSource?: string;     // 偏离共识最大且超过阈值的数据源（偏离程度并列时不设置）
+  agreed: boolean;            // 所有数据源都在阈值内
+}
+
+/**
+ * 单个数据源在多数据源对比中的统计
+ */
+export interface SourceOutlierStats {
+  totalValueUSD: number;
+  outlierPositions: number;      // 被判为离群的 position 数
+  outlierDeviationUSD: number;   // 离群 position 的偏差绝对值之和
+}
+
+/**
+ * 多数据源对比结果
+ */
+export interface MultiSourceCompareResult {
+  address: string;
+  sources: string[];  // 数据源 id，第一个为基准
+  data: Record<string, AddressDefiData>;
+  positions: AlignedPosition[];
+  summary: {
+    totalPositions: number;
+    agreedPositions: number;
+    consensusTotalUSD: number;
+    sourceStats: Record<string, SourceOutlierStats>;
+    thresholds: CompareThresholds;
+  };
+}
+
+/**
+ * 对比快照摘要（同时作为 KV history key 的 metadata，需保持精简）
+ */
+export interface CompareSnapshotMeta {
+  id: string;
+  address: string;
+  providers: { a: string; b: string };
+  label?: string;
+  createdAt: string;
+  totalA: number;
+  totalB: number;
+  totalValueDiffUSD: number;
+  totalValueDiffPercent: number;
+  changedPositions: number;
+  thresholds: CompareThresholds;
+}
+
+/**
+ * 对比快照（摘要 + 完整对比结果）
+ */
+export interface CompareSnapshot extends CompareSnapshotMeta {
+  result: DataSourceCompareResult;
+}
+
+/**
+ * 同一数据源两个时间点之间的 position 变化类型
+ */
+export type TemporalChangeType = 'opened' | 'closed' | 'changed' | 'unchanged';
+
+/**
+ * 单个 position 在两个时间点之间的变化
+ */
+export interface TemporalPositionChange {
+  protocol: string;
+  chain: string;
+  type: PositionType;
+  change: TemporalChangeType;
+  positionBefore?: Position;
+  positionAfter?: Position;
+  valueChangeUSD?: number;
+  valueChangePercent?: number;
+  breakdownChange?: PositionValueBreakdown;  // after - before
+  tokenDiffs?: TokenDiff[];                   // 仅两边都存在时
+  rootCause?: DiffRootCause;                  // 仅两边都存在时
+}
+
+/**
+ * 参与时间对比的快照
+ */
+export interface TemporalSnapshotRef {
+  snapshotId: string;
+  fetchedAt: string;      // 数据源数据的获取时间（AddressDefiData.lastUpdated）
+  totalValueUSD: number;
+}
+
+/**
+ * 同一数据源两个快照之间的时间对比结果
+ */
+export interface TemporalDiffResult {
+  address: string;
+  provider: string;
+  from: TemporalSnapshotRef;  // 较早的快照
+  to: TemporalSnapshotRef;    // 较晚的快照
+  elapsedMs: number;
+  summary: {
+    opened: number;
+    closed: number;
+    changed: number;
+    unchanged: number;
+    ignored: number;
+    totalValueChangeUSD: number;
+    totalValueChangePercent: number;
+    breakdownChange: PositionValueBreakdown;
+    thresholds: CompareThresholds;
+  };
+  changes: TemporalPositionChange[];
+}
+
+/**
+ * 批量对比的地址
+ */
+export interface BatchAddressEntry {
+  address: string;
+  label?: string;
+}
+
+/**
+ * 批量对比请求
+ */
+export interface BatchCompareRequest {
+  entries: BatchAddressEntry[];
+  a: string;             // 数据源 A id（基准）
+  b: string;             // 数据源 B id
+  concurrency: number;
+  fetchOptions?: ProviderFetchOptions;
+  compareOptions?: CompareOptions;
+  fresh?: boolean;       // 跳过数据源结果缓存
+}
+
+/**
+ * 批量对比中单个地址的结果
+ */
+export interface BatchItemResult {
+  address: string;
+  label?: string;
+  success: boolean;
+  withinThreshold?: boolean;  // 总差异是否在阈值内
+  summary?: CompareSummary;
+  totalA?: number;
+  totalB?: number;
+  protocols?: ProtocolAggregate[];
+  snapshotId?: string;        // 完整对比结果的快照 id（异步任务）
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * 批量对比中按协议汇总的差异
+ */
+export interface BatchProtocolDiscrepancy {
+  protocolId: string;
+  protocol: string;
+  chain: string;
+  totalAbsDiffUSD: number;  // 各地址差异绝对值之和
+  walletCount: number;      // 有差异的地址数
+}
+
+/**
+ * 批量对比汇总报告
+ */
+export interface BatchCompareReport {
+  providers: { a: string; b: string };
+  thresholds: CompareThresholds;
+  total: number;
+  succeeded: number;
+  failed: number;
+  withinThreshold: number;
+  outsideThreshold: number;
+  topProtocols: BatchProtocolDiscrepancy[];
+  failures: Array<{ address: string; label?: string; error: string }>;
+  durationMs: number;
+}
+
+/**
+ * 批量对比结果
+ */
+export interface BatchCompareResult {
+  report: BatchCompareReport;
+  results: BatchItemResult[];
+}
+
+/**
+ * 异步对比任务类型：单地址对比 / 批量对比
+ */
+export type CompareJobType = 'compare' | 'batch';
+
+/**
+ * 异步对比任务状态
+ */
+export type CompareJobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+/**
+ * 异步对比任务进度
+ */
+export interface CompareJobProgress {
+  total: number;
+  processed: number;
+  succeeded: number;
+  failed: number;
+}
+
+/**
+ * 异步对比任务（Durable Object 中保存的状态）
+ */
+export interface CompareJobState {
+  id: string;
+  type: CompareJobType;
+  status: CompareJobStatus;
+  request: BatchCompareRequest;
+  progress: CompareJobProgress;
+  report?: BatchCompareReport;  // 全部完成后生成
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+/**
+ * 异步对比任务查询结果
+ */
+export interface CompareJobView extends CompareJobState {
+  results: BatchItemResult[];                 // 已完成地址的摘要（按地址顺序）
+  comparisons?: DataSourceCompareResult[];    // 已完成地址的完整对比结果（从快照读取）
+}
+
+/**
+ * 监控列表中的钱包
+ */
+export interface WatchlistEntry {
+  address: string;
+  label?: string;
+  a: string;  // 数据源 A id（基准）
+  b: string;  // 数据源 B id
+  matchMode?: MatchMode;
+  thresholds?: Partial<CompareThresholds>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * 健康状态：healthy（≥95 分）/ degraded（≥80 分）/ unhealthy / failed（对比失败）
+ */
+export type HealthStatus = 'healthy' | 'degraded' | 'unhealthy' | 'failed';
+
+/**
+ * 单个钱包的健康分
+ */
+export interface WalletHealth {
+  address: string;
+  label?: string;
+  providers: { a: string; b: string };
+  score: number | null;      // 0 ~ 100，对比失败时为 null
+  status: HealthStatus;
+  discrepancyUSD?: number;   // 有差异的 position 差异金额绝对值之和
+  grossValueUSD?: number;    // 各 position 两边价值绝对值的较大者之和
+  totalValueDiffPercent?: number;
+  snapshotId?: string;
+  error?: string;
+}
+
+/**
+ * 单个协议（跨钱包）的健康分
+ */
+export interface ProtocolHealth {
+  protocolId: string;
+  protocol: string;
+  chain: string;
+  score: number;
+  status: HealthStatus;
+  discrepancyUSD: number;
+  grossValueUSD: number;
+  walletCount: number;
+}
+
+/**
+ * 一次定时监控的健康报告
+ */
+export interface HealthReport {
+  runAt: string;
+  durationMs: number;
+  averageScore: number | null;  // 成功对比的钱包的平均分
+  wallets: WalletHealth[];
+  protocols: ProtocolHealth[];  // 按分数升序
+}
+
+/**
+ * 告警规则，各项为 null 时不启用
+ */
+export interface AlertRules {
+  totalDiffPercent: number | null;     // 总差异百分比超过该值
+  missingProtocolUSD: number | null;   // 某协议在 B 中完全缺失，且在 A 中的价值超过该值
+  oneSidedPositionUSD: number | null;  // 只在一个数据源中存在的 position 价值超过该值
+}
+
+/**
+ * 告警规则 id
+ */
+export type AlertRuleId = 'total_diff' | 'missing_protocol' | 'one_sided_position';
+
+/**
+ * 触发的单条告警
+ */
+export interface AlertFinding {
+  rule: AlertRuleId;
+  fingerprint: string;  // 用于去重，同一差异在静默时间内只告警一次
+  message: string;
+  valueUSD: number;
+}
+
+/**
+ * 数据源获取选项（各数据源按需使用，不支持的选项忽略）
+ */
+export interface ProviderFetchOptions {
+  chains?: string[];      // 限定查询的链（canonical id），用于与基准数据源对齐查询范围
+  onlyComplex?: boolean;  // 是否只获取 DeFi 仓位
+  pageSize?: number;      // 分页大小
+  maxPages?: number;      // 分页上限
+  deadlineMs?: number;    // 总时间预算（毫秒），对比流程开始时换算为 deadline，多个数据源共用
+  deadline?: number;      // 截止时间（epoch ms），超时的请求中止，按网络查询的数据源返回部分结果
+}
+
+/**
+ * 数据源（Portfolio Provider）
+ * 新增数据源时实现该接口并在 providers/index.ts 中注册
+ */
+export interface PortfolioProvider {
+  id: string;                         // 路由中使用的 id，如 zerion / onekey
+  name: string;                       // 展示名称，对应 AddressDefiData.source
+  requiredSecrets: Array<keyof Env>;  // 必需的环境变量
+  supportedChains: string[];          // 支持的链（canonical id）
+  getAddressDefiData(address: string, env: Env, options?: ProviderFetchOptions): Promise<AddressDefiData>;
+  getRaw(address: string, env: Env, params?: Record<string, string>): Promise<unknown>;
+  transformRaw?(address: string, raw: unknown): AddressDefiData;  // 可选：将录制的原始响应转换为统一格式
 }
 
 /**
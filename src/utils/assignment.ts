@@ -0,0 +1,86 @@
+/**
+ * 最优指派（匈牙利算法）
+ * 给定 A × B 的得分矩阵，求总得分最大的一对一配对
+ */
+
+// 不允许配对时使用的代价，足够大以保证不会被选中
+const FORBIDDEN_COST = 1e9;
+
+/**
+ * 求解最大得分的一对一指派
+ * @param scores scores[i][j] 为 A[i] 与 B[j] 的得分，null 表示不允许配对
+ * @returns 配对结果 [i, j] 列表（不包含不允许的配对）
+ */
+export function solveAssignment(scores: Array<Array<number | null>>): Array<[number, number]> {
+  const rows = scores.length;
+  const cols = rows > 0 ? scores[0].length : 0;
+  if (rows === 0 || cols === 0) return [];
+
+  // 补齐为 (rows + cols) 方阵，虚拟行 / 列代价为 0（表示不配对）
+  // 每个真实行 / 列都有足够的虚拟列 / 行可选，保证求的是总得分最大而不是配对数最多
+  const n = rows + cols;
+  const cost = (i: number, j: number): number => {
+    if (i >= rows || j >= cols) return 0;
+    const score = scores[i][j];
+    return score === null ? FORBIDDEN_COST : -score;
+  };
+
+  // 标准 O(n^3) 实现，下标从 1 开始，p[j] 为第 j 列配对的行
+  const u = new Array<number>(n + 1).fill(0);
+  const v = new Array<number>(n + 1).fill(0);
+  const p = new Array<number>(n + 1).fill(0);
+  const way = new Array<number>(n + 1).fill(0);
+
+  for (let i = 1; i <= n; i++) {
+    p[0] = i;
+    let j0 = 0;
+    const minv = new Array<number>(n + 1).fill(Infinity);
+    const used = new Array<boolean>(n + 1).fill(false);
+
+    do {
+      used[j0] = true;
+      const i0 = p[j0];
+      let delta = Infinity;
+      let j1 = 0;
+
+      for (let j = 1; j <= n; j++) {
+        if (used[j]) continue;
+        const cur = cost(i0 - 1, j - 1) - u[i0] - v[j];
+        if (cur < minv[j]) {
+          minv[j] = cur;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
+      }
+
+      for (let j = 0; j <= n; j++) {
+        if (used[j]) {
+          u[p[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+
+    do {
+      const j1 = way[j0];
+      p[j0] = p[j1];
+      j0 = j1;
+    } while (j0 !== 0);
+  }
+
+  const pairs: Array<[number, number]> = [];
+  for (let j = 1; j <= n; j++) {
+    const i = p[j] - 1;
+    const col = j - 1;
+    if (i < rows && col < cols && scores[i][col] !== null) {
+      pairs.push([i, col]);
+    }
+  }
+  return pairs;
+}
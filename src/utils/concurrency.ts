@@ -0,0 +1,131 @@
+/**
+ * 并发控制工具
+ */
+
+/**
+ * 以有限并发依次处理列表，结果顺序与输入一致
+ * @param items 待处理列表
+ * @param limit 最大并发数
+ * @param fn 处理函数
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
+
+/**
+ * 排队等待并发名额超过截止时间
+ */
+export class LimiterTimeoutError extends Error {
+  constructor() {
+    super('Timed out waiting for a concurrency slot');
+    this.name = 'LimiterTimeoutError';
+  }
+}
+
+/**
+ * 并发限制器：同时最多执行 limit 个任务，其余排队等待
+ * 传入 deadline（epoch ms）时，排队超过截止时间会移出队列并抛出 LimiterTimeoutError
+ */
+export type Limiter = <T>(fn: () => Promise<T>, deadline?: number) => Promise<T>;
+
+interface Slot {
+  acquiredAt: number;
+}
+
+/**
+ * 创建并发限制器
+ * @param limit 最大并发数
+ * @param maxHoldMs 单个任务最长占用名额的时间，超过后名额被收回；
+ *   任务所在请求被取消时 finally 不会执行，没有上限的话名额会永久泄漏
+ */
+export function createLimiter(limit: number, maxHoldMs = Infinity): Limiter {
+  const active = new Set<Slot>();
+  const queue: Array<() => void> = [];
+
+  const occupy = (): Slot => {
+    const slot = { acquiredAt: Date.now() };
+    active.add(slot);
+    return slot;
+  };
+
+  // 收回超时占用的名额，并把空出的名额分给排队的任务
+  const drain = () => {
+    const now = Date.now();
+    for (const slot of active) {
+      if (now - slot.acquiredAt >= maxHoldMs) {
+        active.delete(slot);
+        console.warn(`[Limiter] Reclaimed a slot held for ${now - slot.acquiredAt}ms`);
+      }
+    }
+    while (active.size < limit && queue.length > 0) {
+      queue.shift()!();
+    }
+  };
+
+  // 最早到期的名额的收回时间
+  const nextExpiry = (): number => {
+    let earliest = Infinity;
+    for (const slot of active) earliest = Math.min(earliest, slot.acquiredAt + maxHoldMs);
+    return earliest;
+  };
+
+  const acquire = (deadline?: number): Promise<Slot> => {
+    drain();
+    if (active.size < limit && queue.length === 0) {
+      return Promise.resolve(occupy());
+    }
+
+    return new Promise<Slot>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const waiter = () => {
+        clearTimeout(timer);
+        resolve(occupy());
+      };
+      queue.push(waiter);
+
+      // 定时器由排队的任务自己设置：到截止时间放弃排队，在此之前有名额到期则收回并重新分配
+      const schedule = () => {
+        const wakeAt = Math.min(deadline ?? Infinity, nextExpiry());
+        if (wakeAt === Infinity) return;
+        timer = setTimeout(() => {
+          if (!queue.includes(waiter)) return;
+          if (deadline !== undefined && Date.now() >= deadline) {
+            queue.splice(queue.indexOf(waiter), 1);
+            reject(new LimiterTimeoutError());
+            return;
+          }
+          drain();
+          if (queue.includes(waiter)) schedule();
+        }, Math.max(wakeAt - Date.now(), 0));
+      };
+      schedule();
+    });
+  };
+
+  return async <T>(fn: () => Promise<T>, deadline?: number): Promise<T> => {
+    const slot = await acquire(deadline);
+    try {
+      return await fn();
+    } finally {
+      // 名额已被收回时 delete 不产生影响
+      active.delete(slot);
+      drain();
+    }
+  };
+}
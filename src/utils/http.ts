@@ -0,0 +1,167 @@
+/**
+ * 上游 HTTP 客户端
+ * 各数据源共用：按数据源限制并发，429 / 5xx / 网络错误 / 超时时指数退避（带 jitter）重试，
+ * 支持 Retry-After，每次请求有单独的超时，并受总时间预算约束（超过预算不再重试，直接中止）
+ */
+import { createLimiter, LimiterTimeoutError, type Limiter } from './concurrency';
+
+// 各数据源的最大并发请求数（每个 Worker isolate 内）
+const PROVIDER_CONCURRENCY: Record<string, number> = {
+  zerion: 4,
+  onekey: 6,
+  debank: 4,
+};
+const DEFAULT_CONCURRENCY = 4;
+
+// 重试配置
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8_000;
+
+// 单次拉取的默认总时间预算
+export const DEFAULT_BUDGET_MS = 25_000;
+
+// 单次上游请求的超时时间（不超过剩余预算）
+const PER_CALL_TIMEOUT_MS = 10_000;
+
+// 单次请求最长占用并发名额的时间，超过后名额被收回（请求被取消时防止名额泄漏）
+const MAX_SLOT_HOLD_MS = PER_CALL_TIMEOUT_MS + 5_000;
+
+// 可重试的 HTTP 状态码
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+
+const limiters = new Map<string, Limiter>();
+
+/**
+ * 上游请求超时（单次请求超时且重试耗尽，或总时间预算用完）
+ */
+export class UpstreamTimeoutError extends Error {
+  constructor(provider: string, url: string) {
+    super(`${provider} request timed out: ${url}`);
+    this.name = 'UpstreamTimeoutError';
+  }
+}
+
+/**
+ * 上游请求统计
+ */
+export interface UpstreamStats {
+  requests: number;     // 实际发出的请求数（含重试）
+  retries: number;      // 重试次数
+  rateLimited: number;  // 收到 429 的次数
+}
+
+/**
+ * 一次数据源拉取的上下文（同一次拉取的所有上游请求共享预算和统计）
+ */
+export interface UpstreamContext {
+  provider: string;
+  deadline: number;  // 截止时间（epoch ms），超过后不再重试
+  stats: UpstreamStats;
+}
+
+/**
+ * 创建上游请求上下文
+ * @param provider 数据源 id（用于并发限制）
+ * @param deadline 截止时间（epoch ms），默认为当前时间加默认预算
+ */
+export function createUpstreamContext(provider: string, deadline?: number): UpstreamContext {
+  return {
+    provider,
+    deadline: deadline ?? Date.now() + DEFAULT_BUDGET_MS,
+    stats: { requests: 0, retries: 0, rateLimited: 0 },
+  };
+}
+
+/**
+ * 判断是否为超时错误（包括读取响应体时被中止）
+ */
+export function isTimeoutError(error: unknown): boolean {
+  return error instanceof UpstreamTimeoutError
+    || (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError'));
+}
+
+/**
+ * 获取数据源的并发限制器
+ */
+function getLimiter(provider: string): Limiter {
+  if (!limiters.has(provider)) {
+    limiters.set(provider, createLimiter(PROVIDER_CONCURRENCY[provider] || DEFAULT_CONCURRENCY, MAX_SLOT_HOLD_MS));
+  }
+  return limiters.get(provider)!;
+}
+
+/**
+ * 解析 Retry-After（秒数或 HTTP 日期），返回等待毫秒数
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(seconds * 1000, 0);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * 第 attempt 次重试前的等待时间（full jitter 指数退避）
+ */
+function backoffDelay(attempt: number): number {
+  return Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+}
+
+/**
+ * 请求上游接口
+ * 可重试的错误在预算内按退避重试；重试耗尽后返回最后一次响应（或抛出最后一次错误），由调用方处理；
+ * 超时抛出 UpstreamTimeoutError
+ */
+export async function upstreamFetch(ctx: UpstreamContext, url: string, init?: RequestInit): Promise<Response> {
+  const limiter = getLimiter(ctx.provider);
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response | undefined;
+    let error: unknown;
+
+    try {
+      // 每次尝试单独占用并发名额，退避等待期间释放；排队不超过截止时间，排队结束后再计算剩余预算
+      response = await limiter(() => {
+        const remaining = ctx.deadline - Date.now();
+        if (remaining <= 0) {
+          throw new UpstreamTimeoutError(ctx.provider, url);
+        }
+        ctx.stats.requests++;
+        return fetch(url, { ...init, signal: AbortSignal.timeout(Math.min(PER_CALL_TIMEOUT_MS, remaining)) });
+      }, ctx.deadline);
+    } catch (e) {
+      error = e instanceof LimiterTimeoutError || isTimeoutError(e) && !(e instanceof UpstreamTimeoutError) ? new UpstreamTimeoutError(ctx.provider, url) : e;
+    }
+
+    // 预算用完的超时不再重试
+    if (error instanceof UpstreamTimeoutError && Date.now() >= ctx.deadline) {
+      throw error;
+    }
+
+    const retryable = error !== undefined || RETRYABLE_STATUS.has(response!.status);
+    if (response?.status === 429) ctx.stats.rateLimited++;
+
+    if (!retryable || attempt >= MAX_RETRIES) {
+      if (error !== undefined) throw error;
+      return response!;
+    }
+
+    const delay = parseRetryAfter(response?.headers.get('Retry-After') ?? null) ?? backoffDelay(attempt);
+    if (Date.now() + delay >= ctx.deadline) {
+      console.warn(`[Upstream] ${ctx.provider} retry budget exhausted for ${url}`);
+      if (error !== undefined) throw error;
+      return response!;
+    }
+
+    console.warn(`[Upstream] ${ctx.provider} ${response ? response.status : (error as Error).name}, retrying in ${Math.round(delay)}ms (${attempt + 1}/${MAX_RETRIES})`);
+
+    // 丢弃响应体，释放连接
+    await response?.body?.cancel();
+    await new Promise(resolve => setTimeout(resolve, delay));
+    ctx.stats.retries++;
+  }
+}
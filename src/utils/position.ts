@@ -0,0 +1,69 @@
+/**
+ * Position 金额计算工具
+ * 统一口径：负债按负值计入 netWorth
+ * netWorth = assets + rewards - debt
+ */
+import type { Position, PositionValueBreakdown, TokenBalance, TokenRole } from '../types';
+
+/**
+ * 按角色返回 token 的带符号价值（borrow 为负）
+ */
+export function signedTokenValue(balance: TokenBalance): number {
+  return balance.role === 'borrow' ? -balance.balanceUSD : balance.balanceUSD;
+}
+
+/**
+ * 根据 token 角色汇总 position 的资产 / 负债 / 奖励 / 净值
+ */
+export function summarizeTokens(tokens: TokenBalance[]): PositionValueBreakdown {
+  const sumByRole = (roles: TokenRole[]) => tokens
+    .filter(t => roles.includes(t.role))
+    .reduce((sum, t) => sum + Math.abs(t.balanceUSD || 0), 0);
+
+  const assetsUSD = sumByRole(['supply', 'lp']);
+  const debtUSD = sumByRole(['borrow']);
+  const rewardsUSD = sumByRole(['reward']);
+
+  return {
+    assetsUSD,
+    debtUSD,
+    rewardsUSD,
+    netWorthUSD: assetsUSD + rewardsUSD - debtUSD,
+  };
+}
+
+/**
+ * 汇总多个 position 的金额拆分
+ */
+export function sumBreakdowns(positions: Position[]): PositionValueBreakdown {
+  return positions.reduce<PositionValueBreakdown>((acc, p) => ({
+    assetsUSD: acc.assetsUSD + p.valueBreakdown.assetsUSD,
+    debtUSD: acc.debtUSD + p.valueBreakdown.debtUSD,
+    rewardsUSD: acc.rewardsUSD + p.valueBreakdown.rewardsUSD,
+    netWorthUSD: acc.netWorthUSD + p.valueBreakdown.netWorthUSD,
+  }), emptyBreakdown());
+}
+
+/**
+ * 计算两个金额拆分的差值（b - a）
+ */
+export function diffBreakdowns(
+  a: PositionValueBreakdown | undefined,
+  b: PositionValueBreakdown | undefined
+): PositionValueBreakdown {
+  const left = a || emptyBreakdown();
+  const right = b || emptyBreakdown();
+  return {
+    assetsUSD: right.assetsUSD - left.assetsUSD,
+    debtUSD: right.debtUSD - left.debtUSD,
+    rewardsUSD: right.rewardsUSD - left.rewardsUSD,
+    netWorthUSD: right.netWorthUSD - left.netWorthUSD,
+  };
+}
+
+/**
+ * 空的金额拆分
+ */
+export function emptyBreakdown(): PositionValueBreakdown {
+  return { assetsUSD: 0, debtUSD: 0, rewardsUSD: 0, netWorthUSD: 0 };
+}